@@ -0,0 +1,28 @@
+-- League catalog used to drive which competitions are fetched and displayed
+CREATE TABLE IF NOT EXISTS leagues (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  query text NOT NULL,
+  badge text NOT NULL DEFAULT '',
+  sort_order integer NOT NULL DEFAULT 0,
+  enabled boolean NOT NULL DEFAULT true,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_leagues_enabled_order ON leagues(enabled, sort_order);
+
+DROP TRIGGER IF EXISTS update_leagues_updated_at ON leagues;
+CREATE TRIGGER update_leagues_updated_at BEFORE UPDATE ON leagues
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Seed the leagues that used to be hard-coded as FEATURED_LEAGUES
+INSERT INTO leagues (id, name, query, badge, sort_order) VALUES
+  ('4328', 'English Premier League', 'English Premier League', 'https://r2.thesportsdb.com/images/media/league/badge/gasy9d1737743125.png', 1),
+  ('4335', 'Spanish La Liga', 'Spanish La Liga', 'https://r2.thesportsdb.com/images/media/league/badge/ja4it51687628717.png', 2),
+  ('4332', 'Italian Serie A', 'Italian Serie A', 'https://r2.thesportsdb.com/images/media/league/badge/67q3q21679951383.png', 3),
+  ('4331', 'German Bundesliga', 'German Bundesliga', 'https://r2.thesportsdb.com/images/media/league/badge/teqh1b1679952008.png', 4),
+  ('4334', 'French Ligue 1', 'French Ligue 1', 'https://r2.thesportsdb.com/images/media/league/badge/9f7z9d1742983155.png', 5),
+  ('4339', 'Turkish Super Lig', 'Turkish Super Lig', 'https://r2.thesportsdb.com/images/media/league/badge/h7xx231601671132.png', 6),
+  ('4480', 'UEFA Champions League', 'UEFA Champions League', 'https://r2.thesportsdb.com/images/media/league/badge/facv1u1742998896.png', 7)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,13 @@
+-- Shared cache of provider responses so serverless instances don't each
+-- re-fetch the same fixtures after a cold start
+CREATE TABLE IF NOT EXISTS fixture_cache (
+  provider text NOT NULL,
+  cache_key text NOT NULL,
+  payload jsonb NOT NULL,
+  fetched_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  refreshing_until timestamptz,
+  PRIMARY KEY (provider, cache_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fixture_cache_expires_at ON fixture_cache(expires_at);
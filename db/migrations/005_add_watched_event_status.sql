@@ -0,0 +1,2 @@
+-- Match status (scheduled, live, half_time, finished, postponed) as last seen
+ALTER TABLE watched_events ADD COLUMN IF NOT EXISTS status text;
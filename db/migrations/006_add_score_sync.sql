@@ -0,0 +1,10 @@
+-- Track when fixture-linked rows were last reconciled with the provider
+ALTER TABLE watched_events ADD COLUMN IF NOT EXISTS last_synced_at timestamptz;
+
+ALTER TABLE notified_events ADD COLUMN IF NOT EXISTS home_score integer;
+ALTER TABLE notified_events ADD COLUMN IF NOT EXISTS away_score integer;
+ALTER TABLE notified_events ADD COLUMN IF NOT EXISTS status text;
+ALTER TABLE notified_events ADD COLUMN IF NOT EXISTS last_synced_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_watched_events_event_id ON watched_events(event_id);
+CREATE INDEX IF NOT EXISTS idx_notified_events_event_id ON notified_events(event_id);
@@ -0,0 +1,22 @@
+-- Device push tokens, tied to the session that registered them so they are
+-- dropped when that session ends
+CREATE TABLE IF NOT EXISTS push_tokens (
+  id serial PRIMARY KEY,
+  user_id text NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  session_token text REFERENCES sessions("sessionToken") ON DELETE CASCADE,
+  token text NOT NULL UNIQUE,
+  platform text NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_tokens_user_id ON push_tokens(user_id);
+
+DROP TRIGGER IF EXISTS update_push_tokens_updated_at ON push_tokens;
+CREATE TRIGGER update_push_tokens_updated_at BEFORE UPDATE ON push_tokens
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Server-side kickoff reminder delivery (sending, sent, failed, skipped)
+ALTER TABLE notified_events ADD COLUMN IF NOT EXISTS reminder_status text;
+ALTER TABLE notified_events ADD COLUMN IF NOT EXISTS reminder_sent_at timestamptz;
+ALTER TABLE notified_events ADD COLUMN IF NOT EXISTS reminder_error text;
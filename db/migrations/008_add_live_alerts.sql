@@ -0,0 +1,28 @@
+-- Last observed score/status per fixture, used to detect goals and phase changes
+CREATE TABLE IF NOT EXISTS live_event_state (
+  event_id text PRIMARY KEY,
+  home_score integer,
+  away_score integer,
+  status text NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Notifications waiting to be (or already) delivered. dedupe_key makes
+-- enqueueing idempotent per user/event/score change.
+CREATE TABLE IF NOT EXISTS notification_outbox (
+  id bigserial PRIMARY KEY,
+  user_id text NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  event_id text NOT NULL,
+  kind text NOT NULL,
+  title text NOT NULL,
+  body text NOT NULL,
+  data jsonb NOT NULL DEFAULT '{}',
+  dedupe_key text NOT NULL UNIQUE,
+  status text NOT NULL DEFAULT 'pending',
+  error text,
+  sent_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_pending
+  ON notification_outbox(created_at) WHERE status = 'pending';
@@ -0,0 +1,24 @@
+-- watched_events becomes the single viewing log. Manual entries (previously
+-- the matches table) are rows with source = 'manual' and an optional
+-- provider event id.
+ALTER TABLE watched_events ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'fixture';
+ALTER TABLE watched_events ALTER COLUMN event_id DROP NOT NULL;
+ALTER TABLE watched_events ALTER COLUMN league_id DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_watched_events_user_source
+  ON watched_events(user_id, source);
+
+DO $$
+BEGIN
+  IF to_regclass('public.matches') IS NOT NULL THEN
+    INSERT INTO watched_events
+      (user_id, event_id, league_id, league_name, date, time, home_team, away_team,
+       home_score, away_score, status, source, created_at)
+    SELECT
+      user_id, NULL, NULL, league, date, to_char(time, 'HH24:MI'), home_team, away_team,
+      home_score, away_score, 'finished', 'manual', created_at
+    FROM matches;
+
+    DROP TABLE matches;
+  END IF;
+END $$;
@@ -0,0 +1,6 @@
+-- Deleted manual entries are kept for a short undo window before being purged.
+ALTER TABLE watched_events ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_watched_events_deleted_at
+  ON watched_events(deleted_at)
+  WHERE deleted_at IS NOT NULL;
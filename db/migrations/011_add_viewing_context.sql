@@ -0,0 +1,8 @@
+-- How, where and with whom a match was watched, plus a rating and notes.
+ALTER TABLE watched_events ADD COLUMN IF NOT EXISTS medium text
+  CHECK (medium IN ('stadium', 'tv', 'stream', 'pub', 'other'));
+ALTER TABLE watched_events ADD COLUMN IF NOT EXISTS venue text;
+ALTER TABLE watched_events ADD COLUMN IF NOT EXISTS company text;
+ALTER TABLE watched_events ADD COLUMN IF NOT EXISTS rating smallint
+  CHECK (rating BETWEEN 1 AND 10);
+ALTER TABLE watched_events ADD COLUMN IF NOT EXISTS notes text;
@@ -0,0 +1,9 @@
+-- Matches attended in person, with the stadium taken from the provider's
+-- venue fields (or entered by hand for manual entries).
+ALTER TABLE watched_events ADD COLUMN IF NOT EXISTS attended boolean NOT NULL DEFAULT false;
+ALTER TABLE watched_events ADD COLUMN IF NOT EXISTS stadium text;
+ALTER TABLE watched_events ADD COLUMN IF NOT EXISTS country text;
+
+CREATE INDEX IF NOT EXISTS idx_watched_events_attended
+  ON watched_events(user_id)
+  WHERE attended;
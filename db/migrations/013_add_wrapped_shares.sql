@@ -0,0 +1,9 @@
+-- Public links to a user's year-in-review page. One link per user and year;
+-- deleting the row revokes it.
+CREATE TABLE IF NOT EXISTS wrapped_shares (
+  token text PRIMARY KEY,
+  user_id text NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  year integer NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, year)
+);
@@ -0,0 +1,33 @@
+-- Kickoff as an absolute instant, so dates and times can be shown in each
+-- user's timezone. Provider times are UTC; manual entries never recorded a
+-- zone, so existing ones are backfilled as UTC too.
+ALTER TABLE watched_events ADD COLUMN IF NOT EXISTS kickoff_at timestamptz;
+ALTER TABLE notified_events ADD COLUMN IF NOT EXISTS kickoff_at timestamptz;
+
+-- notified_events.date was text while every other table uses date
+DO $$
+BEGIN
+  IF (
+    SELECT data_type FROM information_schema.columns
+    WHERE table_name = 'notified_events' AND column_name = 'date'
+  ) = 'text' THEN
+    ALTER TABLE notified_events
+      ALTER COLUMN date TYPE date
+      USING CASE
+        WHEN date ~ '^\d{4}-\d{2}-\d{2}$' THEN date::date
+        ELSE created_at::date
+      END;
+  END IF;
+END $$;
+
+UPDATE watched_events
+SET kickoff_at = (date + left(time, 5)::time) AT TIME ZONE 'UTC'
+WHERE kickoff_at IS NULL AND time ~ '^([01]\d|2[0-3]):[0-5]\d';
+
+UPDATE notified_events
+SET kickoff_at = (date + left(time, 5)::time) AT TIME ZONE 'UTC'
+WHERE kickoff_at IS NULL AND time ~ '^([01]\d|2[0-3]):[0-5]\d';
+
+CREATE INDEX IF NOT EXISTS idx_notified_events_pending_kickoff
+  ON notified_events(kickoff_at)
+  WHERE reminder_status IS NULL;
@@ -0,0 +1,25 @@
+-- Team directory synced from the fixture provider by /api/cron/teams.
+-- `id` is the provider's team id; `aliases` are the other names the provider
+-- knows the team by, used to match free-text team names in the viewing log.
+CREATE TABLE IF NOT EXISTS teams (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  short_name text,
+  badge text,
+  country text,
+  aliases text[] NOT NULL DEFAULT '{}',
+  synced_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_teams_lower_name ON teams(lower(name));
+
+-- A team can play in several competitions (league and Champions League);
+-- each sync replaces the membership of the league it fetched
+CREATE TABLE IF NOT EXISTS team_leagues (
+  team_id text NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  league_id text NOT NULL REFERENCES leagues(id) ON DELETE CASCADE,
+  PRIMARY KEY (team_id, league_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_leagues_league ON team_leagues(league_id);
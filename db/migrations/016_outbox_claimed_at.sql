@@ -0,0 +1,7 @@
+-- When a dispatch run claimed the row. A run that dies between claiming and
+-- recording the outcome leaves the row in 'sending'; later runs take it over
+-- once the claim is old enough.
+ALTER TABLE notification_outbox ADD COLUMN IF NOT EXISTS claimed_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_sending
+  ON notification_outbox(claimed_at) WHERE status = 'sending';
@@ -0,0 +1,3 @@
+-- When a reminder run claimed the row, so reminders left in 'sending' by a
+-- run that died can be claimed again
+ALTER TABLE notified_events ADD COLUMN IF NOT EXISTS reminder_claimed_at timestamptz;
@@ -0,0 +1,6 @@
+-- Goal alerts queued per fixture. It goes into each goal's dedupe key, so a
+-- scoreline seen again after a VAR reversal still alerts.
+ALTER TABLE live_event_state ADD COLUMN IF NOT EXISTS goal_alerts integer NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_live_event_state_in_play
+  ON live_event_state(updated_at) WHERE status IN ('scheduled', 'live', 'half_time');
@@ -0,0 +1,3 @@
+-- Searches are no longer kept in fixture_cache; remove the rows earlier
+-- releases wrote, one per distinct query
+DELETE FROM fixture_cache WHERE cache_key LIKE 'search:%';
@@ -40,22 +40,6 @@ CREATE TABLE IF NOT EXISTS verification_tokens (
   PRIMARY KEY (identifier, token)
 );
 
-CREATE TABLE IF NOT EXISTS matches (
-  id bigserial PRIMARY KEY,
-  user_id text NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-  date date NOT NULL,
-  time time NOT NULL,
-  league text NOT NULL,
-  home_team text NOT NULL,
-  away_team text NOT NULL,
-  home_score integer NOT NULL,
-  away_score integer NOT NULL,
-  created_at timestamptz NOT NULL DEFAULT now()
-);
-
-CREATE INDEX IF NOT EXISTS matches_user_date_idx
-  ON matches (user_id, date DESC);
-
 CREATE TABLE IF NOT EXISTS watched_events (
   id bigserial PRIMARY KEY,
   user_id text NOT NULL REFERENCES users(id) ON DELETE CASCADE,
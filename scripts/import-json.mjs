@@ -54,10 +54,10 @@ if (matches.length === 0) {
 const pool = new Pool({ connectionString: databaseUrl });
 
 const insertSql = `
-  INSERT INTO matches
-    (user_id, date, time, league, home_team, away_team, home_score, away_score)
+  INSERT INTO watched_events
+    (user_id, date, time, league_name, home_team, away_team, home_score, away_score, status, source)
   VALUES
-    ($1, $2, $3, $4, $5, $6, $7, $8)
+    ($1, $2, $3, $4, $5, $6, $7, $8, 'finished', 'manual')
 `;
 
 let imported = 0;
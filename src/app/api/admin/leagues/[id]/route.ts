@@ -0,0 +1,79 @@
+import { updateLeague } from "@/lib/db";
+import { getUserIdFromRequest, isAdminUser } from "@/lib/mobile-auth";
+
+export const dynamic = "force-dynamic";
+
+type LeagueUpdatePayload = {
+  name: string;
+  query: string;
+  badge: string;
+  sortOrder: number;
+  enabled: boolean;
+};
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const userId = await getUserIdFromRequest(request);
+  if (!userId) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 });
+  }
+  if (!isAdminUser(userId)) {
+    return Response.json({ error: "Forbidden." }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const body = (await request.json()) as Partial<LeagueUpdatePayload>;
+
+  for (const field of ["name", "query", "badge"] as const) {
+    if (body[field] !== undefined && typeof body[field] !== "string") {
+      return Response.json({ error: `${field} must be a string.` }, { status: 400 });
+    }
+  }
+  if (body.name !== undefined && !body.name.trim()) {
+    return Response.json({ error: "League name cannot be empty." }, { status: 400 });
+  }
+  if (body.sortOrder !== undefined && !Number.isInteger(body.sortOrder)) {
+    return Response.json({ error: "sortOrder must be an integer." }, { status: 400 });
+  }
+  if (body.enabled !== undefined && typeof body.enabled !== "boolean") {
+    return Response.json({ error: "enabled must be a boolean." }, { status: 400 });
+  }
+
+  const league = await updateLeague(id, {
+    name: body.name?.trim(),
+    query: body.query?.trim() || undefined,
+    badge: body.badge?.trim(),
+    sortOrder: body.sortOrder,
+    enabled: body.enabled,
+  });
+
+  if (!league) {
+    return Response.json({ error: "League not found." }, { status: 404 });
+  }
+
+  return Response.json({ league });
+}
+
+// Leagues are disabled rather than deleted so existing watched events keep
+// pointing at a known league.
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const userId = await getUserIdFromRequest(request);
+  if (!userId) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 });
+  }
+  if (!isAdminUser(userId)) {
+    return Response.json({ error: "Forbidden." }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const league = await updateLeague(id, { enabled: false });
+
+  if (!league) {
+    return Response.json({ error: "League not found." }, { status: 404 });
+  }
+
+  return Response.json({ league });
+}
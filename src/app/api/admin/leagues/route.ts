@@ -0,0 +1,64 @@
+import { createLeague, listLeagues } from "@/lib/db";
+import { getUserIdFromRequest, isAdminUser } from "@/lib/mobile-auth";
+
+export const dynamic = "force-dynamic";
+
+type LeaguePayload = {
+  id: string;
+  name: string;
+  query: string;
+  badge: string;
+  sortOrder: number;
+};
+
+export async function GET(request: Request) {
+  const userId = await getUserIdFromRequest(request);
+  if (!userId) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 });
+  }
+  if (!isAdminUser(userId)) {
+    return Response.json({ error: "Forbidden." }, { status: 403 });
+  }
+
+  const leagues = await listLeagues(true);
+  return Response.json({ leagues });
+}
+
+export async function POST(request: Request) {
+  const userId = await getUserIdFromRequest(request);
+  if (!userId) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 });
+  }
+  if (!isAdminUser(userId)) {
+    return Response.json({ error: "Forbidden." }, { status: 403 });
+  }
+
+  const body = (await request.json()) as Partial<LeaguePayload>;
+  for (const field of ["id", "name", "query", "badge"] as const) {
+    if (body[field] !== undefined && typeof body[field] !== "string") {
+      return Response.json({ error: `${field} must be a string.` }, { status: 400 });
+    }
+  }
+  const id = body.id?.trim();
+  const name = body.name?.trim();
+  if (!id || !name) {
+    return Response.json({ error: "Missing required fields." }, { status: 400 });
+  }
+  if (body.sortOrder !== undefined && !Number.isInteger(body.sortOrder)) {
+    return Response.json({ error: "sortOrder must be an integer." }, { status: 400 });
+  }
+
+  const league = await createLeague({
+    id,
+    name,
+    query: body.query?.trim() || name,
+    badge: body.badge?.trim() ?? "",
+    sortOrder: body.sortOrder,
+  });
+
+  if (!league) {
+    return Response.json({ error: "League already exists." }, { status: 409 });
+  }
+
+  return Response.json({ league });
+}
@@ -0,0 +1,20 @@
+import { isCronRequest } from "@/lib/cron";
+import { pollLiveAlerts } from "@/lib/live-alerts";
+import { dispatchPendingNotifications } from "@/lib/outbox";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  if (!isCronRequest(request)) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 });
+  }
+
+  try {
+    const poll = await pollLiveAlerts();
+    const delivery = await dispatchPendingNotifications();
+    return Response.json({ poll, delivery });
+  } catch (error) {
+    console.error("Live alerts job error:", error);
+    return Response.json({ error: "Live alerts job failed." }, { status: 500 });
+  }
+}
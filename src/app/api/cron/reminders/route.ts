@@ -0,0 +1,18 @@
+import { isCronRequest } from "@/lib/cron";
+import { sendKickoffReminders } from "@/lib/reminders";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  if (!isCronRequest(request)) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 });
+  }
+
+  try {
+    const result = await sendKickoffReminders();
+    return Response.json(result);
+  } catch (error) {
+    console.error("Reminder job error:", error);
+    return Response.json({ error: "Reminder job failed." }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+import { isCronRequest } from "@/lib/cron";
+import { syncStaleScores } from "@/lib/score-sync";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  if (!isCronRequest(request)) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 });
+  }
+
+  try {
+    const result = await syncStaleScores();
+    return Response.json(result);
+  } catch (error) {
+    console.error("Score sync error:", error);
+    return Response.json({ error: "Score sync failed." }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+import { isCronRequest } from "@/lib/cron";
+import { syncTeams } from "@/lib/team-sync";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  if (!isCronRequest(request)) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 });
+  }
+
+  try {
+    const result = await syncTeams();
+    return Response.json(result);
+  } catch (error) {
+    console.error("Team sync error:", error);
+    return Response.json({ error: "Team sync failed." }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import {
+  listNotifiedEventIdsByEventIds,
+  listWatchedEventIdsByEventIds,
+} from "@/lib/db";
+import { fetchEventDetails } from "@/lib/fixtures";
+import { getUserIdFromRequest } from "@/lib/mobile-auth";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ eventId: string }>;
+};
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const userId = await getUserIdFromRequest(request);
+  if (!userId) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 });
+  }
+
+  const { eventId } = await params;
+
+  try {
+    const [event, watchedIds, notifiedIds] = await Promise.all([
+      fetchEventDetails(eventId),
+      listWatchedEventIdsByEventIds(userId, [eventId]),
+      listNotifiedEventIdsByEventIds(userId, [eventId]),
+    ]);
+    if (!event) {
+      return Response.json({ error: "Event not found." }, { status: 404 });
+    }
+
+    return Response.json({
+      event,
+      watched: watchedIds.length > 0,
+      notified: notifiedIds.length > 0,
+    });
+  } catch (error) {
+    console.error("Event detail error:", error);
+    return Response.json(
+      { error: "Failed to fetch event." },
+      { status: 500 }
+    );
+  }
+}
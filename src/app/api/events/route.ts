@@ -1,20 +1,31 @@
-import { fetchEventsByDate, FEATURED_LEAGUES } from "@/lib/sportsdb";
+import { eventLocalDate, fetchEventsForLocalRange } from "@/lib/fixtures";
+import type { LeagueFailure, NormalizedEvent } from "@/lib/fixtures";
 import {
-  getWatchedStats,
+  getUserPreferences,
+  getViewingStats,
   listWatchedEventIds,
   listNotifiedEventIds,
 } from "@/lib/db";
+import type { LeagueRecord } from "@/lib/db";
+import { getUserLeagues } from "@/lib/leagues";
 import { getUserIdFromRequest } from "@/lib/mobile-auth";
+import {
+  compareKickoff,
+  countDays,
+  datesBetween,
+  isCalendarDate,
+  resolveTimeZone,
+} from "@/lib/timezone";
 
 export const dynamic = "force-dynamic";
 
-function isValidDate(value: string) {
-  return /^\d{4}-\d{2}-\d{2}$/.test(value);
-}
+// Each day fans out to one upstream call per league, so ranges stay short
+const MAX_RANGE_DAYS = 14;
 
 function groupByLeague(
-  events: Awaited<ReturnType<typeof fetchEventsByDate>>,
-  leagueOrder?: string[]
+  events: NormalizedEvent[],
+  leagues: LeagueRecord[],
+  failedLeagues: LeagueFailure[]
 ) {
   const grouped = new Map<string, typeof events>();
   for (const event of events) {
@@ -24,21 +35,23 @@ function groupByLeague(
     grouped.get(event.leagueId)?.push(event);
   }
 
-  // Use custom order if provided, otherwise use default FEATURED_LEAGUES order
-  const orderedLeagues = leagueOrder
-    ? leagueOrder
-        .map((id) => FEATURED_LEAGUES.find((l) => l.id === id))
-        .filter(Boolean)
-    : FEATURED_LEAGUES;
-
-  return orderedLeagues.map((league) => ({
-    id: league!.id,
-    name: league!.name,
-    badge: league!.badge,
-    events: (grouped.get(league!.id) ?? []).sort((a, b) =>
-      a.time.localeCompare(b.time)
-    ),
-  }));
+  // Leagues arrive already filtered and ordered for the user
+  return leagues.map((league) => {
+    const failure = failedLeagues.find((f) => f.leagueId === league.id);
+    // A local day can span two UTC dates, so the time alone doesn't order it
+    const leagueEvents = (grouped.get(league.id) ?? []).sort(compareKickoff);
+    return {
+      id: league.id,
+      name: league.name,
+      badge: league.badge,
+      status: failure ? ("error" as const) : ("ok" as const),
+      error: failure?.error,
+      liveCount: leagueEvents.filter(
+        (event) => event.status === "live" || event.status === "half_time"
+      ).length,
+      events: leagueEvents,
+    };
+  });
 }
 
 export async function GET(request: Request) {
@@ -47,23 +60,71 @@ export async function GET(request: Request) {
     return Response.json({ error: "Unauthorized." }, { status: 401 });
   }
 
+  // Either a single `date` or an inclusive `from`/`to` range, as calendar
+  // days in the user's timezone
   const { searchParams } = new URL(request.url);
   const date = searchParams.get("date");
-  if (!date || !isValidDate(date)) {
+  const from = date ?? searchParams.get("from");
+  const to = date ?? searchParams.get("to");
+  if (!from || !to || !isCalendarDate(from) || !isCalendarDate(to)) {
     return Response.json({ error: "Invalid date." }, { status: 400 });
   }
+  const span = countDays(from, to);
+  if (span < 1 || span > MAX_RANGE_DAYS) {
+    return Response.json(
+      { error: `Choose a range of 1 to ${MAX_RANGE_DAYS} days.` },
+      { status: 400 }
+    );
+  }
+  const dates = datesBetween(from, to);
 
-  // Optional: get league order from query params (comma-separated IDs)
+  // Optional: override the saved league order (comma-separated IDs)
   const orderParam = searchParams.get("leagueOrder");
   const leagueOrder = orderParam ? orderParam.split(",") : undefined;
 
-  const events = await fetchEventsByDate(date);
-  const leagues = groupByLeague(events, leagueOrder);
-  const [watchedIds, notifiedIds, stats] = await Promise.all([
-    listWatchedEventIds(userId, date),
-    listNotifiedEventIds(userId, date),
-    getWatchedStats(userId),
+  const [userLeagues, preferences] = await Promise.all([
+    getUserLeagues(userId, leagueOrder),
+    getUserPreferences(userId),
   ]);
+  const timeZone = resolveTimeZone(preferences.timezone);
+  const [{ events, failedLeagues }, watchedIds, notifiedIds, stats] =
+    await Promise.all([
+      fetchEventsForLocalRange(from, to, timeZone, userLeagues),
+      listWatchedEventIds(userId, from, to, timeZone),
+      listNotifiedEventIds(userId, from, to, timeZone),
+      getViewingStats(userId, timeZone),
+    ]);
+
+  if (date) {
+    const leagues = groupByLeague(events, userLeagues, failedLeagues);
+    return Response.json({
+      date,
+      timeZone,
+      leagues,
+      watchedIds,
+      notifiedIds,
+      stats,
+    });
+  }
+
+  const byDay = new Map<string, NormalizedEvent[]>(
+    dates.map((day) => [day, []])
+  );
+  for (const event of events) {
+    byDay.get(eventLocalDate(event, timeZone))?.push(event);
+  }
+  const days = dates.map((day) => ({
+    date: day,
+    leagues: groupByLeague(byDay.get(day) ?? [], userLeagues, failedLeagues),
+  }));
 
-  return Response.json({ date, leagues, watchedIds, notifiedIds, stats });
+  return Response.json({
+    from,
+    to,
+    timeZone,
+    days,
+    watchedIds,
+    notifiedIds,
+    stats,
+  });
 }
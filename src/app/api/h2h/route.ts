@@ -0,0 +1,41 @@
+import { getHeadToHead } from "@/lib/head-to-head";
+import { getUserIdFromRequest } from "@/lib/mobile-auth";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const userId = await getUserIdFromRequest(request);
+  if (!userId) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const home = searchParams.get("home");
+  const away = searchParams.get("away");
+  if (!home || !away) {
+    return Response.json(
+      { error: "Missing home or away parameter." },
+      { status: 400 }
+    );
+  }
+  if (home === away) {
+    return Response.json(
+      { error: "home and away must be different teams." },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const headToHead = await getHeadToHead(userId, home, away);
+    if (!headToHead) {
+      return Response.json({ error: "Team not found." }, { status: 404 });
+    }
+    return Response.json(headToHead);
+  } catch (error) {
+    console.error("Head-to-head error:", error);
+    return Response.json(
+      { error: "Failed to fetch head-to-head." },
+      { status: 500 }
+    );
+  }
+}
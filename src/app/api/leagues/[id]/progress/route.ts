@@ -0,0 +1,49 @@
+import { getUserPreferences, listLeagues } from "@/lib/db";
+import { currentSeason, isValidSeason } from "@/lib/fixtures";
+import { getUserIdFromRequest } from "@/lib/mobile-auth";
+import { getSeasonProgress } from "@/lib/progress";
+import { resolveTimeZone } from "@/lib/timezone";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const userId = await getUserIdFromRequest(request);
+  if (!userId) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const { searchParams } = new URL(request.url);
+  const season = searchParams.get("season") || currentSeason();
+  if (!isValidSeason(season)) {
+    return Response.json({ error: "Invalid season." }, { status: 400 });
+  }
+
+  const leagues = await listLeagues(true);
+  const league = leagues.find((entry) => entry.id === id);
+  if (!league) {
+    return Response.json({ error: "League not found." }, { status: 404 });
+  }
+
+  try {
+    const preferences = await getUserPreferences(userId);
+    const progress = await getSeasonProgress(
+      userId,
+      league,
+      season,
+      preferences.favoriteTeams ?? [],
+      resolveTimeZone(preferences.timezone)
+    );
+    return Response.json(progress);
+  } catch (error) {
+    console.error("League progress error:", error);
+    return Response.json(
+      { error: "Failed to fetch league progress." },
+      { status: 500 }
+    );
+  }
+}
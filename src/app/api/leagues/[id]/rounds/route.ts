@@ -0,0 +1,93 @@
+import {
+  getUserPreferences,
+  listLeagues,
+  listNotifiedEventIdsByEventIds,
+} from "@/lib/db";
+import {
+  currentSeason,
+  fetchRoundEvents,
+  fetchSeasons,
+  isValidSeason,
+} from "@/lib/fixtures";
+import { getUserIdFromRequest } from "@/lib/mobile-auth";
+import { listWatchedLeagueEventIds } from "@/lib/progress";
+import { resolveTimeZone } from "@/lib/timezone";
+
+export const dynamic = "force-dynamic";
+
+// The longest leagues play 46 rounds; leave some headroom
+const MAX_ROUND = 60;
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const userId = await getUserIdFromRequest(request);
+  if (!userId) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const { searchParams } = new URL(request.url);
+  const season = searchParams.get("season") || currentSeason();
+  const round = Number(searchParams.get("round") ?? "1");
+  if (!isValidSeason(season)) {
+    return Response.json({ error: "Invalid season." }, { status: 400 });
+  }
+  if (!Number.isInteger(round) || round < 1 || round > MAX_ROUND) {
+    return Response.json({ error: "Invalid round." }, { status: 400 });
+  }
+
+  const leagues = await listLeagues(true);
+  const league = leagues.find((entry) => entry.id === id);
+  if (!league) {
+    return Response.json({ error: "League not found." }, { status: 404 });
+  }
+
+  try {
+    // The season picker is optional; the round is still shown without it
+    const [seasons, events] = await Promise.all([
+      fetchSeasons(league).catch((error: unknown) => {
+        console.error(`League seasons error for ${league.id}:`, error);
+        return [] as string[];
+      }),
+      fetchRoundEvents(league, season, round),
+    ]);
+    const preferences = await getUserPreferences(userId);
+    const [watchedIds, notifiedIds] = await Promise.all([
+      // Counted the same way as the season progress view
+      listWatchedLeagueEventIds(
+        userId,
+        league,
+        events,
+        resolveTimeZone(preferences.timezone)
+      ),
+      listNotifiedEventIdsByEventIds(
+        userId,
+        events.map((event) => event.eventId)
+      ),
+    ]);
+
+    return Response.json({
+      leagueId: league.id,
+      leagueName: league.name,
+      leagueBadge: league.badge,
+      seasons,
+      season,
+      round,
+      events,
+      watchedIds,
+      notifiedIds,
+      // "Watched X of Y this round"
+      watchedCount: watchedIds.length,
+      totalCount: events.length,
+    });
+  } catch (error) {
+    console.error("League round error:", error);
+    return Response.json(
+      { error: "Failed to fetch league round." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import {
+  getUserPreferences,
+  listLeagues,
+  updateUserPreferences,
+} from "@/lib/db";
+import { isSubscribed } from "@/lib/leagues";
+import { getUserIdFromRequest } from "@/lib/mobile-auth";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const userId = await getUserIdFromRequest(request);
+  if (!userId) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 });
+  }
+
+  const [catalog, preferences] = await Promise.all([
+    listLeagues(),
+    getUserPreferences(userId),
+  ]);
+  const hidden = new Set(preferences.hiddenLeagues ?? []);
+
+  const leagues = catalog.map((league) => ({
+    id: league.id,
+    name: league.name,
+    badge: league.badge,
+    subscribed: isSubscribed(league, preferences),
+    hidden: hidden.has(league.id),
+  }));
+
+  return Response.json({ leagues });
+}
+
+export async function PUT(request: Request) {
+  const userId = await getUserIdFromRequest(request);
+  if (!userId) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 });
+  }
+
+  const body = (await request.json()) as { subscribedLeagues?: unknown };
+  if (
+    !Array.isArray(body.subscribedLeagues) ||
+    !body.subscribedLeagues.every((id) => typeof id === "string")
+  ) {
+    return Response.json(
+      { error: "subscribedLeagues must be an array of league ids." },
+      { status: 400 }
+    );
+  }
+
+  const catalog = await listLeagues();
+  const supported = new Set(catalog.map((league) => league.id));
+  const unknown = body.subscribedLeagues.filter((id) => !supported.has(id));
+  if (unknown.length > 0) {
+    return Response.json(
+      { error: `Unsupported leagues: ${unknown.join(", ")}.` },
+      { status: 400 }
+    );
+  }
+
+  const result = await updateUserPreferences(userId, {
+    subscribedLeagues: Array.from(new Set(body.subscribedLeagues)),
+  });
+
+  return Response.json({
+    preferences: result.preferences,
+    updatedAt: result.updatedAt,
+  });
+}
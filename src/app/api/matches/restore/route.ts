@@ -0,0 +1,33 @@
+import { MATCH_UNDO_WINDOW_MINUTES, restoreMatches } from "@/lib/db";
+import { MAX_BULK_MATCH_IDS, parseMatchIds } from "@/lib/match-ids";
+import { getUserIdFromRequest } from "@/lib/mobile-auth";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  const userId = await getUserIdFromRequest(request);
+  if (!userId) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 });
+  }
+  const body = (await request.json()) as { id?: unknown; ids?: unknown };
+
+  const ids = parseMatchIds(body);
+  if (!ids) {
+    return Response.json(
+      { error: `Provide between 1 and ${MAX_BULK_MATCH_IDS} match ids.` },
+      { status: 400 }
+    );
+  }
+
+  const matches = await restoreMatches(userId, ids);
+  if (matches.length === 0) {
+    return Response.json(
+      {
+        error: `Nothing to restore. Deleted matches can only be restored within ${MATCH_UNDO_WINDOW_MINUTES} minutes.`,
+      },
+      { status: 410 }
+    );
+  }
+
+  return Response.json({ matches });
+}
@@ -1,5 +1,18 @@
-import { createMatch, getStats, listMatches, updateMatch } from "@/lib/db";
+import {
+  createMatch,
+  deleteMatches,
+  getUserPreferences,
+  getViewingStats,
+  isUniqueViolation,
+  listMatches,
+  MATCH_UNDO_WINDOW_MINUTES,
+  updateMatch,
+  updateMatches,
+  type MatchChanges,
+} from "@/lib/db";
+import { MAX_BULK_MATCH_IDS, parseMatchIds } from "@/lib/match-ids";
 import { getUserIdFromRequest } from "@/lib/mobile-auth";
+import { resolveTimeZone, zonedTimeToUtc } from "@/lib/timezone";
 
 export const dynamic = "force-dynamic";
 
@@ -11,6 +24,8 @@ type MatchPayload = {
   awayTeam: string;
   homeScore: number;
   awayScore: number;
+  // Optional link to a provider fixture
+  eventId: string | null;
 };
 
 function isValidDate(value: string) {
@@ -21,13 +36,19 @@ function isValidTime(value: string) {
   return /^\d{2}:\d{2}$/.test(value);
 }
 
+// Manual dates and times are entered in the user's timezone
+async function getUserTimeZone(userId: string) {
+  const preferences = await getUserPreferences(userId);
+  return resolveTimeZone(preferences.timezone);
+}
+
 export async function GET(request: Request) {
   const userId = await getUserIdFromRequest(request);
   if (!userId) {
     return Response.json({ error: "Unauthorized." }, { status: 401 });
   }
   const matches = await listMatches(userId);
-  const stats = await getStats(userId);
+  const stats = await getViewingStats(userId, await getUserTimeZone(userId));
   return Response.json({ matches, stats });
 }
 
@@ -72,17 +93,36 @@ export async function POST(request: Request) {
     );
   }
 
-  const match = await createMatch(userId, {
-    date: body.date,
-    time: body.time,
-    league,
-    homeTeam,
-    awayTeam,
-    homeScore,
-    awayScore,
-  });
+  if (body.eventId != null && typeof body.eventId !== "string") {
+    return Response.json({ error: "eventId must be a string." }, { status: 400 });
+  }
+  const eventId = body.eventId?.trim() || null;
+  const timeZone = await getUserTimeZone(userId);
 
-  return Response.json({ match });
+  try {
+    const match = await createMatch(userId, {
+      eventId,
+      date: body.date,
+      time: body.time,
+      kickoffAt: zonedTimeToUtc(body.date, body.time, timeZone),
+      league,
+      homeTeam,
+      awayTeam,
+      homeScore,
+      awayScore,
+    });
+    return Response.json({ match });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return Response.json(
+        {
+          error: `This fixture is already in your log, or was deleted less than ${MATCH_UNDO_WINDOW_MINUTES} minutes ago.`,
+        },
+        { status: 409 }
+      );
+    }
+    throw error;
+  }
 }
 
 export async function PUT(request: Request) {
@@ -129,15 +169,36 @@ export async function PUT(request: Request) {
     );
   }
 
-  const match = await updateMatch(userId, body.id, {
-    date: body.date,
-    time: body.time,
-    league,
-    homeTeam,
-    awayTeam,
-    homeScore,
-    awayScore,
-  });
+  if (body.eventId != null && typeof body.eventId !== "string") {
+    return Response.json({ error: "eventId must be a string." }, { status: 400 });
+  }
+  const eventId = body.eventId?.trim() || null;
+  const timeZone = await getUserTimeZone(userId);
+
+  let match;
+  try {
+    match = await updateMatch(userId, body.id, {
+      eventId,
+      date: body.date,
+      time: body.time,
+      kickoffAt: zonedTimeToUtc(body.date, body.time, timeZone),
+      league,
+      homeTeam,
+      awayTeam,
+      homeScore,
+      awayScore,
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return Response.json(
+        {
+          error: `This fixture is already in your log, or was deleted less than ${MATCH_UNDO_WINDOW_MINUTES} minutes ago.`,
+        },
+        { status: 409 }
+      );
+    }
+    throw error;
+  }
 
   if (!match) {
     return Response.json({ error: "Match not found." }, { status: 404 });
@@ -145,3 +206,81 @@ export async function PUT(request: Request) {
 
   return Response.json({ match });
 }
+
+export async function PATCH(request: Request) {
+  const userId = await getUserIdFromRequest(request);
+  if (!userId) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 });
+  }
+  const body = (await request.json()) as {
+    id?: unknown;
+    ids?: unknown;
+    changes?: Partial<Record<keyof MatchChanges, unknown>>;
+  };
+
+  const ids = parseMatchIds(body);
+  if (!ids) {
+    return Response.json(
+      { error: `Provide between 1 and ${MAX_BULK_MATCH_IDS} match ids.` },
+      { status: 400 }
+    );
+  }
+
+  const changes: MatchChanges = {};
+  const fields = ["league", "homeTeam", "awayTeam", "date", "time"] as const;
+  for (const field of fields) {
+    const value = body.changes?.[field];
+    if (value === undefined) continue;
+    if (typeof value !== "string" || !value.trim()) {
+      return Response.json(
+        { error: `${field} must be a non-empty string.` },
+        { status: 400 }
+      );
+    }
+    changes[field] = value.trim();
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return Response.json({ error: "No changes provided." }, { status: 400 });
+  }
+  if (
+    (changes.date && !isValidDate(changes.date)) ||
+    (changes.time && !isValidTime(changes.time))
+  ) {
+    return Response.json({ error: "Invalid date or time format." }, { status: 400 });
+  }
+
+  const matches = await updateMatches(
+    userId,
+    ids,
+    changes,
+    await getUserTimeZone(userId)
+  );
+  return Response.json({ matches });
+}
+
+export async function DELETE(request: Request) {
+  const userId = await getUserIdFromRequest(request);
+  if (!userId) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 });
+  }
+  const body = (await request.json()) as { id?: unknown; ids?: unknown };
+
+  const ids = parseMatchIds(body);
+  if (!ids) {
+    return Response.json(
+      { error: `Provide between 1 and ${MAX_BULK_MATCH_IDS} match ids.` },
+      { status: 400 }
+    );
+  }
+
+  const deletedIds = await deleteMatches(userId, ids);
+  if (deletedIds.length === 0) {
+    return Response.json({ error: "Match not found." }, { status: 404 });
+  }
+
+  const undoUntil = new Date(
+    Date.now() + MATCH_UNDO_WINDOW_MINUTES * 60 * 1000
+  ).toISOString();
+  return Response.json({ deletedIds, undoUntil });
+}
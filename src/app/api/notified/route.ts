@@ -4,6 +4,7 @@ import {
   removeNotifiedEvent,
   getNotifiedEvent,
 } from "@/lib/db";
+import { isCalendarDate, toKickoffAt } from "@/lib/timezone";
 
 export async function GET(request: Request) {
   const userId = await getUserIdFromRequest(request);
@@ -54,6 +55,9 @@ export async function POST(request: Request) {
       { status: 400 }
     );
   }
+  if (typeof date !== "string" || !isCalendarDate(date)) {
+    return Response.json({ error: "Invalid date." }, { status: 400 });
+  }
 
   const record = await addNotifiedEvent(userId, {
     eventId,
@@ -64,6 +68,8 @@ export async function POST(request: Request) {
     homeTeam,
     awayTeam,
     notificationId: notificationId ?? null,
+    // Fixture date and time are the provider's, in UTC
+    kickoffAt: toKickoffAt(date, time),
   });
 
   return Response.json(record);
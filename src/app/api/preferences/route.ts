@@ -1,5 +1,10 @@
-import { getUserPreferences, updateUserPreferences } from "@/lib/db";
+import {
+  getUserPreferences,
+  resolveTeamIds,
+  updateUserPreferences,
+} from "@/lib/db";
 import { getUserIdFromRequest } from "@/lib/mobile-auth";
+import { isValidTimeZone } from "@/lib/timezone";
 
 export const dynamic = "force-dynamic";
 
@@ -25,6 +30,25 @@ export async function PUT(request: Request) {
     return Response.json({ error: "Invalid request body." }, { status: 400 });
   }
 
+  if ("timezone" in body && !isValidTimeZone(body.timezone)) {
+    return Response.json({ error: "Unknown timezone." }, { status: 400 });
+  }
+
+  if ("favoriteTeams" in body) {
+    const teams: unknown = body.favoriteTeams;
+    if (
+      !Array.isArray(teams) ||
+      !teams.every((team) => typeof team === "string")
+    ) {
+      return Response.json(
+        { error: "favoriteTeams must be a list of team ids." },
+        { status: 400 }
+      );
+    }
+    // Names from older clients are stored as ids when the directory knows them
+    body.favoriteTeams = await resolveTeamIds(teams);
+  }
+
   const result = await updateUserPreferences(userId, body);
 
   return Response.json({
@@ -0,0 +1,57 @@
+import { removePushToken, upsertPushToken } from "@/lib/db";
+import {
+  getSessionTokenFromRequest,
+  getUserIdFromRequest,
+} from "@/lib/mobile-auth";
+
+export const dynamic = "force-dynamic";
+
+const PLATFORMS = ["ios", "android", "web"];
+
+type PushTokenPayload = {
+  token: string;
+  platform: string;
+};
+
+export async function POST(request: Request) {
+  const userId = await getUserIdFromRequest(request);
+  if (!userId) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 });
+  }
+
+  const body = (await request.json()) as Partial<PushTokenPayload>;
+  if (body.token !== undefined && typeof body.token !== "string") {
+    return Response.json({ error: "token must be a string." }, { status: 400 });
+  }
+  const token = body.token?.trim();
+  if (!token || !body.platform) {
+    return Response.json({ error: "Missing required fields." }, { status: 400 });
+  }
+  if (!PLATFORMS.includes(body.platform)) {
+    return Response.json({ error: "Invalid platform." }, { status: 400 });
+  }
+
+  const record = await upsertPushToken(
+    userId,
+    getSessionTokenFromRequest(request),
+    token,
+    body.platform
+  );
+
+  return Response.json({ record });
+}
+
+export async function DELETE(request: Request) {
+  const userId = await getUserIdFromRequest(request);
+  if (!userId) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 });
+  }
+
+  const body = (await request.json()) as Partial<{ token: string }>;
+  if (!body.token || typeof body.token !== "string") {
+    return Response.json({ error: "Missing token." }, { status: 400 });
+  }
+
+  await removePushToken(userId, body.token);
+  return Response.json({ ok: true });
+}
@@ -0,0 +1,43 @@
+import { getUserPreferences } from "@/lib/db";
+import { getUserIdFromRequest } from "@/lib/mobile-auth";
+import {
+  MAX_QUERY_LENGTH,
+  MIN_QUERY_LENGTH,
+  parseSearchQuery,
+  search,
+} from "@/lib/search";
+import { resolveTimeZone } from "@/lib/timezone";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const userId = await getUserIdFromRequest(request);
+  if (!userId) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const query = searchParams.get("q");
+  const terms = parseSearchQuery(query);
+  if (query && query.trim().length > MAX_QUERY_LENGTH) {
+    return Response.json(
+      { error: `Search for at most ${MAX_QUERY_LENGTH} characters.` },
+      { status: 400 }
+    );
+  }
+  if (!query || !terms) {
+    return Response.json(
+      { error: `Search for at least ${MIN_QUERY_LENGTH} characters.` },
+      { status: 400 }
+    );
+  }
+
+  const preferences = await getUserPreferences(userId);
+  const response = await search(
+    userId,
+    query.trim(),
+    terms,
+    resolveTimeZone(preferences.timezone)
+  );
+  return Response.json(response);
+}
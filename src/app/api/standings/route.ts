@@ -0,0 +1,61 @@
+import { getUserPreferences, listLeagues } from "@/lib/db";
+import {
+  currentSeason,
+  fetchStandings,
+  isValidSeason,
+} from "@/lib/fixtures";
+import { getUserIdFromRequest } from "@/lib/mobile-auth";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const userId = await getUserIdFromRequest(request);
+  if (!userId) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const leagueId = searchParams.get("leagueId");
+  const season = searchParams.get("season") || currentSeason();
+  if (!leagueId) {
+    return Response.json(
+      { error: "Missing leagueId parameter." },
+      { status: 400 }
+    );
+  }
+  if (!isValidSeason(season)) {
+    return Response.json({ error: "Invalid season." }, { status: 400 });
+  }
+
+  const leagues = await listLeagues(true);
+  const league = leagues.find((entry) => entry.id === leagueId);
+  if (!league) {
+    return Response.json({ error: "League not found." }, { status: 404 });
+  }
+
+  try {
+    const [standings, preferences] = await Promise.all([
+      fetchStandings(league, season),
+      getUserPreferences(userId),
+    ]);
+    // Favourites are team ids, or names the team directory couldn't match
+    const favorites = new Set(preferences.favoriteTeams ?? []);
+
+    return Response.json({
+      leagueId: league.id,
+      leagueName: league.name,
+      leagueBadge: league.badge,
+      season: standings.season,
+      rows: standings.rows.map((row) => ({
+        ...row,
+        favorite: favorites.has(row.teamId) || favorites.has(row.teamName),
+      })),
+    });
+  } catch (error) {
+    console.error("Standings error:", error);
+    return Response.json(
+      { error: "Failed to fetch standings." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { getUserPreferences } from "@/lib/db";
+import { getUserIdFromRequest } from "@/lib/mobile-auth";
+import { getStatsReport } from "@/lib/stats";
+import { isCalendarDate, resolveTimeZone } from "@/lib/timezone";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const userId = await getUserIdFromRequest(request);
+  if (!userId) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const from = searchParams.get("from");
+  const to = searchParams.get("to");
+  if ((from && !isCalendarDate(from)) || (to && !isCalendarDate(to))) {
+    return Response.json({ error: "Invalid date range." }, { status: 400 });
+  }
+  if (from && to && from > to) {
+    return Response.json(
+      { error: "from must be on or before to." },
+      { status: 400 }
+    );
+  }
+
+  const preferences = await getUserPreferences(userId);
+  const report = await getStatsReport(
+    userId,
+    { from: from || null, to: to || null },
+    preferences.favoriteTeams ?? [],
+    resolveTimeZone(preferences.timezone)
+  );
+  return Response.json(report);
+}
@@ -1,5 +1,5 @@
 import { getUserIdFromRequest } from '@/lib/mobile-auth';
-import { fetchTeamMatches } from '@/lib/sportsdb';
+import { fetchTeamMatches } from '@/lib/fixtures';
 import {
   listWatchedEventIdsByEventIds,
   listNotifiedEventIdsByEventIds
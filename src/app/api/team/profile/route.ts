@@ -0,0 +1,38 @@
+import { getUserPreferences } from "@/lib/db";
+import { getUserIdFromRequest } from "@/lib/mobile-auth";
+import { getTeamProfile } from "@/lib/team-profile";
+import { resolveTimeZone } from "@/lib/timezone";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const userId = await getUserIdFromRequest(request);
+  if (!userId) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const teamId = searchParams.get("teamId");
+  if (!teamId) {
+    return Response.json({ error: "Missing teamId parameter." }, { status: 400 });
+  }
+
+  try {
+    const preferences = await getUserPreferences(userId);
+    const profile = await getTeamProfile(
+      userId,
+      teamId,
+      resolveTimeZone(preferences.timezone)
+    );
+    if (!profile) {
+      return Response.json({ error: "Team not found." }, { status: 404 });
+    }
+    return Response.json(profile);
+  } catch (error) {
+    console.error("Team profile error:", error);
+    return Response.json(
+      { error: "Failed to fetch team profile." },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,4 @@
-import { getAllTeams } from "@/lib/sportsdb";
+import { listTeamsByLeague } from "@/lib/db";
 import { getUserIdFromRequest } from "@/lib/mobile-auth";
 
 export const dynamic = "force-dynamic";
@@ -9,9 +9,8 @@ export async function GET(request: Request) {
     return Response.json({ error: "Unauthorized." }, { status: 401 });
   }
 
-  // Get curated list of teams for featured leagues
-  // Note: TheSportsDB free tier doesn't support lookup_all_teams endpoint
-  const teamsByLeague = getAllTeams();
+  // Filled by /api/cron/teams; leagues it hasn't synced yet are left out
+  const teamsByLeague = await listTeamsByLeague();
 
   return Response.json({ teamsByLeague });
 }
@@ -0,0 +1,20 @@
+import { getGroundStats, getUserPreferences } from "@/lib/db";
+import { getUserIdFromRequest } from "@/lib/mobile-auth";
+import { resolveTimeZone } from "@/lib/timezone";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const userId = await getUserIdFromRequest(request);
+  if (!userId) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 });
+  }
+
+  const preferences = await getUserPreferences(userId);
+  const stats = await getGroundStats(
+    userId,
+    preferences.favoriteTeams ?? [],
+    resolveTimeZone(preferences.timezone)
+  );
+  return Response.json(stats);
+}
@@ -1,5 +1,10 @@
-import { listWatchedEvents } from "@/lib/db";
+import {
+  getUserPreferences,
+  getViewingStats,
+  listWatchedEvents,
+} from "@/lib/db";
 import { getUserIdFromRequest } from "@/lib/mobile-auth";
+import { resolveTimeZone } from "@/lib/timezone";
 
 export const dynamic = "force-dynamic";
 
@@ -9,6 +14,11 @@ export async function GET(request: Request) {
     return Response.json({ error: "Unauthorized." }, { status: 401 });
   }
 
-  const events = await listWatchedEvents(userId);
-  return Response.json({ events });
+  const preferences = await getUserPreferences(userId);
+  const timeZone = resolveTimeZone(preferences.timezone);
+  const [events, stats] = await Promise.all([
+    listWatchedEvents(userId),
+    getViewingStats(userId, timeZone),
+  ]);
+  return Response.json({ events, stats, timeZone });
 }
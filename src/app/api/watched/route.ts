@@ -1,5 +1,16 @@
-import { addWatchedEvent, removeWatchedEvent } from "@/lib/db";
+import {
+  addWatchedEvent,
+  MATCH_UNDO_WINDOW_MINUTES,
+  removeWatchedEvent,
+  updateWatchedContext,
+  VIEWING_MEDIUMS,
+  type ViewingContext,
+  type ViewingMedium,
+} from "@/lib/db";
+import { fetchEventById, MATCH_STATUSES } from "@/lib/fixtures";
+import type { MatchStatus } from "@/lib/fixtures";
 import { getUserIdFromRequest } from "@/lib/mobile-auth";
+import { toKickoffAt } from "@/lib/timezone";
 
 export const dynamic = "force-dynamic";
 
@@ -13,12 +24,85 @@ type WatchedPayload = {
   awayTeam: string;
   homeScore: number | null;
   awayScore: number | null;
+  status: MatchStatus | null;
+  stadium: string | null;
+  country: string | null;
 };
 
 function isValidDate(value: string) {
   return /^\d{4}-\d{2}-\d{2}$/.test(value);
 }
 
+const TEXT_LIMITS = {
+  venue: 200,
+  company: 200,
+  notes: 2000,
+  stadium: 200,
+  country: 100,
+} as const;
+
+type ContextPayload = { id?: unknown } & {
+  [K in keyof ViewingContext]?: unknown;
+};
+
+// Validates a PATCH body into context changes, or returns an error message.
+// Empty strings clear a field, like null.
+function parseContextChanges(
+  body: ContextPayload
+): Partial<ViewingContext> | string {
+  const changes: Partial<ViewingContext> = {};
+
+  if (body.medium !== undefined) {
+    if (body.medium === null || body.medium === "") {
+      changes.medium = null;
+    } else if (VIEWING_MEDIUMS.includes(body.medium as ViewingMedium)) {
+      changes.medium = body.medium as ViewingMedium;
+    } else {
+      return `medium must be one of: ${VIEWING_MEDIUMS.join(", ")}.`;
+    }
+  }
+
+  if (body.attended !== undefined) {
+    if (typeof body.attended !== "boolean") {
+      return "attended must be true or false.";
+    }
+    changes.attended = body.attended;
+  }
+
+  for (const field of [
+    "venue",
+    "company",
+    "notes",
+    "stadium",
+    "country",
+  ] as const) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (value !== null && typeof value !== "string") {
+      return `${field} must be a string.`;
+    }
+    const text = value?.trim() ?? "";
+    if (text.length > TEXT_LIMITS[field]) {
+      return `${field} must be at most ${TEXT_LIMITS[field]} characters.`;
+    }
+    changes[field] = text || null;
+  }
+
+  if (body.rating !== undefined) {
+    if (body.rating === null || body.rating === "") {
+      changes.rating = null;
+    } else {
+      const rating = Number(body.rating);
+      if (!Number.isInteger(rating) || rating < 1 || rating > 10) {
+        return "rating must be an integer from 1 to 10.";
+      }
+      changes.rating = rating;
+    }
+  }
+
+  return changes;
+}
+
 export async function POST(request: Request) {
   const userId = await getUserIdFromRequest(request);
   if (!userId) {
@@ -39,6 +123,14 @@ export async function POST(request: Request) {
   if (!isValidDate(body.date)) {
     return Response.json({ error: "Invalid date." }, { status: 400 });
   }
+  if (body.status && !MATCH_STATUSES.includes(body.status)) {
+    return Response.json({ error: "Invalid status." }, { status: 400 });
+  }
+  for (const field of ["stadium", "country"] as const) {
+    if (body[field] != null && typeof body[field] !== "string") {
+      return Response.json({ error: `${field} must be a string.` }, { status: 400 });
+    }
+  }
 
   const record = await addWatchedEvent(userId, {
     eventId: body.eventId,
@@ -46,11 +138,68 @@ export async function POST(request: Request) {
     leagueName: body.leagueName,
     date: body.date,
     time: body.time ?? "",
+    kickoffAt: toKickoffAt(body.date, body.time),
     homeTeam: body.homeTeam,
     awayTeam: body.awayTeam,
     homeScore: body.homeScore ?? null,
     awayScore: body.awayScore ?? null,
+    status: body.status ?? null,
+    stadium: body.stadium?.trim() || null,
+    country: body.country?.trim() || null,
   });
+  if (!record) {
+    return Response.json(
+      {
+        error: `This fixture was just deleted from your log. Restore it, or try again in ${MATCH_UNDO_WINDOW_MINUTES} minutes.`,
+      },
+      { status: 409 }
+    );
+  }
+
+  return Response.json({ record });
+}
+
+export async function PATCH(request: Request) {
+  const userId = await getUserIdFromRequest(request);
+  if (!userId) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 });
+  }
+
+  const body = (await request.json()) as ContextPayload;
+  const id = Number(body.id);
+  if (!Number.isInteger(id) || id <= 0) {
+    return Response.json({ error: "Missing id." }, { status: 400 });
+  }
+
+  const changes = parseContextChanges(body);
+  if (typeof changes === "string") {
+    return Response.json({ error: changes }, { status: 400 });
+  }
+  if (Object.keys(changes).length === 0) {
+    return Response.json({ error: "No changes provided." }, { status: 400 });
+  }
+
+  let record = await updateWatchedContext(userId, id, changes);
+  if (!record) {
+    return Response.json({ error: "Watched match not found." }, { status: 404 });
+  }
+
+  // Fill in the stadium from the provider the first time a fixture is marked
+  // as attended; a provider failure shouldn't fail the edit itself
+  if (record.attended && !record.stadium && record.eventId) {
+    try {
+      const event = await fetchEventById(record.eventId);
+      if (event?.venue) {
+        record =
+          (await updateWatchedContext(userId, id, {
+            stadium: event.venue,
+            country: record.country ?? event.country,
+          })) ?? record;
+      }
+    } catch (error) {
+      console.error(`Venue lookup failed for event ${record.eventId}:`, error);
+    }
+  }
 
   return Response.json({ record });
 }
@@ -0,0 +1,26 @@
+import { getUserPreferences, getWrappedShareToken } from "@/lib/db";
+import { getUserIdFromRequest } from "@/lib/mobile-auth";
+import { getYearInReview, parseRecapYear } from "@/lib/stats";
+import { resolveTimeZone } from "@/lib/timezone";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const userId = await getUserIdFromRequest(request);
+  if (!userId) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const year = parseRecapYear(searchParams.get("year"));
+  if (!year) {
+    return Response.json({ error: "Invalid year." }, { status: 400 });
+  }
+
+  const preferences = await getUserPreferences(userId);
+  const [recap, shareToken] = await Promise.all([
+    getYearInReview(userId, year, resolveTimeZone(preferences.timezone)),
+    getWrappedShareToken(userId, year),
+  ]);
+  return Response.json({ recap, shareToken });
+}
@@ -0,0 +1,38 @@
+import crypto from "node:crypto";
+import { createWrappedShare, removeWrappedShare } from "@/lib/db";
+import { getUserIdFromRequest } from "@/lib/mobile-auth";
+import { parseRecapYear } from "@/lib/stats";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  const userId = await getUserIdFromRequest(request);
+  if (!userId) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 });
+  }
+
+  const body = (await request.json()) as { year?: unknown };
+  const year = parseRecapYear(body.year);
+  if (!year) {
+    return Response.json({ error: "Invalid year." }, { status: 400 });
+  }
+
+  const token = await createWrappedShare(userId, year, crypto.randomUUID());
+  return Response.json({ token, path: `/wrapped/${token}` });
+}
+
+export async function DELETE(request: Request) {
+  const userId = await getUserIdFromRequest(request);
+  if (!userId) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 });
+  }
+
+  const body = (await request.json()) as { year?: unknown };
+  const year = parseRecapYear(body.year);
+  if (!year) {
+    return Response.json({ error: "Invalid year." }, { status: 400 });
+  }
+
+  await removeWrappedShare(userId, year);
+  return Response.json({ ok: true });
+}
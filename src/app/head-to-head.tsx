@@ -0,0 +1,95 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { HeadToHead } from "@/lib/head-to-head";
+
+const MEETING_LIMIT = 5;
+
+const meetingDateFormatter = new Intl.DateTimeFormat("en-US", {
+  month: "short",
+  day: "numeric",
+  year: "numeric",
+  timeZone: "UTC",
+});
+
+// Past meetings between a fixture's teams, loaded when the card is expanded
+export default function HeadToHeadPanel({
+  homeTeamId,
+  awayTeamId,
+}: {
+  homeTeamId: string;
+  awayTeamId: string;
+}) {
+  const [data, setData] = useState<HeadToHead | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    async function load() {
+      try {
+        const res = await fetch(
+          `/api/h2h?home=${encodeURIComponent(
+            homeTeamId
+          )}&away=${encodeURIComponent(awayTeamId)}`,
+          { signal: controller.signal }
+        );
+        if (!res.ok) {
+          throw new Error("Couldn't load head-to-head.");
+        }
+        setData((await res.json()) as HeadToHead);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : "Something went wrong.");
+      }
+    }
+    load();
+    return () => controller.abort();
+  }, [homeTeamId, awayTeamId]);
+
+  if (error || !data || data.record.played === 0) {
+    return (
+      <div className="h2h-panel">
+        {error ? (
+          <p className="form-error">{error}</p>
+        ) : (
+          <p className="empty-state">
+            {data ? "No previous meetings found." : "Loading head-to-head..."}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  const { home, away, record } = data;
+  return (
+    <div className="h2h-panel">
+      <p className="h2h-record">
+        <strong>{home.name}</strong> {record.homeWins} · Draws{" "}
+        {record.draws} · {record.awayWins} <strong>{away.name}</strong>
+      </p>
+      <p className="form-note">
+        {record.played} meetings · goals {record.homeGoals} -{" "}
+        {record.awayGoals}
+        {data.watchedCount > 0
+          ? ` · you watched ${data.watchedCount}`
+          : null}
+      </p>
+      <ul className="h2h-meetings">
+        {data.meetings.slice(0, MEETING_LIMIT).map((meeting) => (
+          <li key={meeting.eventId}>
+            <span>
+              {meetingDateFormatter.format(new Date(`${meeting.date}T00:00:00Z`))}
+            </span>
+            <span>
+              {meeting.homeTeam} {meeting.homeScore} - {meeting.awayScore}{" "}
+              {meeting.awayTeam}
+            </span>
+            {meeting.watched ? (
+              <span className="status-badge">Watched</span>
+            ) : null}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { EventDetails, LineupPlayer, TimelineEntry } from "@/lib/fixtures";
+
+type EventDetailResponse = {
+  event: EventDetails;
+  watched: boolean;
+  notified: boolean;
+};
+
+const TIMELINE_LABELS: Record<TimelineEntry["kind"], string> = {
+  goal: "Goal",
+  card: "Card",
+  substitution: "Sub",
+};
+
+function formatKickoff(event: EventDetails, timeZone?: string) {
+  if (!event.kickoffAt) {
+    return event.date;
+  }
+  return new Intl.DateTimeFormat("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone,
+  }).format(new Date(event.kickoffAt));
+}
+
+function describeEntry(entry: TimelineEntry) {
+  const extra = [entry.detail, entry.relatedPlayer]
+    .filter(Boolean)
+    .join(" · ");
+  return extra ? `${entry.player} (${extra})` : entry.player;
+}
+
+function renderLineup(title: string, players: LineupPlayer[]) {
+  const starters = players.filter((player) => !player.substitute);
+  const substitutes = players.filter((player) => player.substitute);
+  return (
+    <div className="lineup">
+      <h4>{title}</h4>
+      <ul>
+        {starters.map((player) => (
+          <li key={player.name}>
+            <span className="lineup-number">{player.number ?? ""}</span>
+            {player.name}
+          </li>
+        ))}
+      </ul>
+      {substitutes.length > 0 ? (
+        <>
+          <h5>Substitutes</h5>
+          <ul>
+            {substitutes.map((player) => (
+              <li key={player.name}>
+                <span className="lineup-number">{player.number ?? ""}</span>
+                {player.name}
+              </li>
+            ))}
+          </ul>
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+// Full match view: scorers, cards, substitutions and lineups when the
+// provider has them
+export default function MatchDetail({
+  eventId,
+  timeZone,
+  onClose,
+}: {
+  eventId: string;
+  timeZone?: string;
+  onClose: () => void;
+}) {
+  const [data, setData] = useState<EventDetailResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    async function load() {
+      try {
+        const res = await fetch(`/api/events/${encodeURIComponent(eventId)}`, {
+          signal: controller.signal,
+        });
+        if (!res.ok) {
+          throw new Error(
+            res.status === 404 ? "Match not found." : "Couldn't load the match."
+          );
+        }
+        setData((await res.json()) as EventDetailResponse);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : "Something went wrong.");
+      }
+    }
+    load();
+    return () => controller.abort();
+  }, [eventId]);
+
+  useEffect(() => {
+    function handleKey(event: KeyboardEvent) {
+      if (event.key === "Escape") onClose();
+    }
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [onClose]);
+
+  const event = data?.event;
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div
+        className="modal-content match-detail"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="modal-header">
+          <h2>
+            {event
+              ? `${event.homeTeam} ${
+                  event.homeScore !== null && event.awayScore !== null
+                    ? `${event.homeScore} - ${event.awayScore}`
+                    : "vs"
+                } ${event.awayTeam}`
+              : "Match"}
+          </h2>
+          <button type="button" className="modal-close" onClick={onClose}>
+            ✕
+          </button>
+        </div>
+        {error ? <p className="form-error">{error}</p> : null}
+        {!event && !error ? (
+          <p className="empty-state">Loading match...</p>
+        ) : null}
+        {event ? (
+          <div className="modal-body">
+            <p className="match-detail-meta">
+              {[
+                event.leagueName,
+                formatKickoff(event, timeZone),
+                event.venue,
+                event.referee ? `Referee: ${event.referee}` : null,
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+              {data?.watched ? (
+                <span className="status-badge">Watched</span>
+              ) : null}
+            </p>
+
+            <section className="settings-section">
+              <h3>Timeline</h3>
+              {event.timeline.length === 0 ? (
+                <p className="empty-state">No timeline for this match.</p>
+              ) : (
+                <ul className="match-timeline">
+                  {event.timeline.map((entry, index) => (
+                    <li
+                      key={`${entry.kind}-${entry.minute}-${entry.player}-${index}`}
+                      className={`timeline-${entry.side}`}
+                    >
+                      <span className="timeline-minute">
+                        {entry.minute !== null ? `${entry.minute}'` : ""}
+                      </span>
+                      <span className={`timeline-kind timeline-${entry.kind}`}>
+                        {TIMELINE_LABELS[entry.kind]}
+                      </span>
+                      <span>{describeEntry(entry)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            {event.lineups ? (
+              <section className="settings-section">
+                <h3>Lineups</h3>
+                <div className="lineups">
+                  {renderLineup(event.homeTeam, event.lineups.home)}
+                  {renderLineup(event.awayTeam, event.lineups.away)}
+                </div>
+              </section>
+            ) : null}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
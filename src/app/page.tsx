@@ -3,6 +3,10 @@
 import Link from "next/link";
 import { signIn, signOut, useSession } from "next-auth/react";
 import { useEffect, useMemo, useState } from "react";
+import HeadToHeadPanel from "@/app/head-to-head";
+import MatchDetail from "@/app/match-detail";
+import SearchBox from "@/app/search-box";
+import StandingsPanel from "@/app/standings-panel";
 
 type Stats = {
   weekCount: number;
@@ -17,19 +21,45 @@ type EventItem = {
   leagueBadge: string;
   date: string;
   time: string;
+  kickoffAt: string | null;
   homeTeam: string;
   awayTeam: string;
+  homeTeamId?: string;
+  awayTeamId?: string;
   homeScore: number | null;
   awayScore: number | null;
+  status: MatchStatus;
+  minute: number | null;
+  venue: string | null;
+  country: string | null;
 };
 
+type MatchStatus = "scheduled" | "live" | "half_time" | "finished" | "postponed";
+
 type LeagueGroup = {
   id: string;
   name: string;
   badge: string;
+  status: "ok" | "error";
+  error?: string;
+  liveCount: number;
   events: EventItem[];
 };
 
+type DayGroup = {
+  date: string;
+  leagues: LeagueGroup[];
+};
+
+type ScheduleView = "day" | "week";
+
+type LeagueOption = {
+  id: string;
+  name: string;
+  badge: string;
+  subscribed: boolean;
+};
+
 const dateFormatter = new Intl.DateTimeFormat("en-US", {
   weekday: "short",
   month: "short",
@@ -50,44 +80,35 @@ function formatDisplayDate(value: string | Date) {
   return dateFormatter.format(date);
 }
 
-function formatEventTime(date: string, time: string) {
-  if (!time) {
-    return "TBD";
-  }
-  if (time.includes("T")) {
-    const parsed = new Date(time);
+// Kickoff in the user's saved timezone (the browser's until one is loaded)
+function formatEventTime(event: EventItem, timeZone?: string) {
+  if (event.kickoffAt) {
+    const parsed = new Date(event.kickoffAt);
     if (!Number.isNaN(parsed.getTime())) {
       return parsed.toLocaleTimeString("en-GB", {
+        timeZone,
         hour: "2-digit",
         minute: "2-digit",
         hour12: false,
       });
     }
   }
-  const hasSeconds = time.length >= 8;
-  const iso = date ? `${date}T${time}${hasSeconds ? "Z" : "Z"}` : "";
-  if (iso) {
-    const parsed = new Date(iso);
-    if (!Number.isNaN(parsed.getTime())) {
-      return parsed.toLocaleTimeString("en-GB", {
-        hour: "2-digit",
-        minute: "2-digit",
-        hour12: false,
-      });
-    }
-  }
-  return time.length >= 5 ? time.slice(0, 5) : time;
+  return "TBD";
 }
 
-function isMatchLive(date: string, time: string): boolean {
-  if (!time) return false;
-  const now = new Date();
-  // Parse match start time
-  const matchStart = new Date(`${date}T${time}Z`);
-  if (Number.isNaN(matchStart.getTime())) return false;
-  // Match is live if now is between start and start + 2 hours
-  const matchEnd = new Date(matchStart.getTime() + 2 * 60 * 60 * 1000);
-  return now >= matchStart && now < matchEnd;
+function statusLabel(event: EventItem) {
+  switch (event.status) {
+    case "live":
+      return event.minute !== null ? `LIVE ${event.minute}'` : "LIVE";
+    case "half_time":
+      return "HT";
+    case "finished":
+      return "FT";
+    case "postponed":
+      return "Postponed";
+    default:
+      return null;
+  }
 }
 
 function todayValue() {
@@ -114,6 +135,14 @@ function startOfWeek(date: Date) {
   return start;
 }
 
+// Monday to Sunday around the given day
+function weekRange(value: string) {
+  const start = startOfWeek(new Date(`${value}T00:00:00`));
+  const end = new Date(start);
+  end.setDate(start.getDate() + 6);
+  return { from: formatDate(start), to: formatDate(end) };
+}
+
 export default function Home() {
   const { data: session, status } = useSession();
   const [stats, setStats] = useState<Stats>({
@@ -122,38 +151,65 @@ export default function Home() {
     totalCount: 0,
   });
   const [selectedDate, setSelectedDate] = useState(todayValue());
-  const [leagues, setLeagues] = useState<LeagueGroup[]>([]);
+  const [timeZone, setTimeZone] = useState<string | undefined>();
+  // Set once the browser's zone is saved, so days are fetched again in it
+  const [browserZoneSaved, setBrowserZoneSaved] = useState(false);
+  const [view, setView] = useState<ScheduleView>("day");
+  const [days, setDays] = useState<DayGroup[]>([]);
   const [watchedIds, setWatchedIds] = useState<Set<string>>(new Set());
   const [leagueOrder, setLeagueOrder] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [pendingIds, setPendingIds] = useState<Set<string>>(new Set());
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [detailId, setDetailId] = useState<string | null>(null);
+  // `${day}:${leagueId}` of the league group whose table is open
+  const [openTable, setOpenTable] = useState<string | null>(null);
   const [showSettings, setShowSettings] = useState(false);
+  const [leagueOptions, setLeagueOptions] = useState<LeagueOption[]>([]);
+  const [savingLeagues, setSavingLeagues] = useState(false);
 
   const isAuthenticated = status === "authenticated";
 
-  async function loadEvents(date: string) {
+  // The week view loads all seven days in one request
+  async function loadEvents(date: string, scheduleView: ScheduleView) {
     setLoading(true);
     try {
-      const res = await fetch(`/api/events?date=${date}`);
+      const { from, to } = weekRange(date);
+      const res = await fetch(
+        scheduleView === "week"
+          ? `/api/events?from=${from}&to=${to}`
+          : `/api/events?date=${date}`
+      );
       if (res.status === 401) {
         setError("Sign in to see available matches.");
-        setLeagues([]);
+        setDays([]);
         setWatchedIds(new Set());
         return;
       }
       if (!res.ok) {
-        throw new Error("Failed to load matches for the day.");
+        throw new Error(
+          scheduleView === "week"
+            ? "Failed to load matches for the week."
+            : "Failed to load matches for the day."
+        );
       }
       const data = (await res.json()) as {
-        leagues: LeagueGroup[];
+        timeZone: string;
+        leagues?: LeagueGroup[];
+        days?: DayGroup[];
         watchedIds: string[];
         stats: Stats;
       };
-      setLeagues(data.leagues ?? []);
-      if (leagueOrder.length === 0 && data.leagues?.length > 0) {
-        setLeagueOrder(data.leagues.map((l) => l.id));
-      }
+      const nextDays = data.days ?? [{ date, leagues: data.leagues ?? [] }];
+      setTimeZone(data.timeZone);
+      setDays(nextDays);
+      // Keep the local order but follow subscription changes
+      const ids = (nextDays[0]?.leagues ?? []).map((l) => l.id);
+      setLeagueOrder((prev) => {
+        const kept = prev.filter((id) => ids.includes(id));
+        return [...kept, ...ids.filter((id) => !kept.includes(id))];
+      });
       setWatchedIds(new Set(data.watchedIds ?? []));
       setStats(data.stats);
       setError(null);
@@ -166,9 +222,95 @@ export default function Home() {
 
   useEffect(() => {
     if (status === "authenticated") {
-      void loadEvents(selectedDate);
+      void loadEvents(selectedDate, view);
+    }
+  }, [status, selectedDate, view, browserZoneSaved]);
+
+  // Days and kickoff times follow the saved timezone; default it to the
+  // browser's on first sign-in
+  useEffect(() => {
+    if (status !== "authenticated") return;
+    async function saveBrowserTimeZone() {
+      const res = await fetch("/api/preferences");
+      if (!res.ok) return;
+      const data = (await res.json()) as {
+        preferences: { timezone?: string };
+      };
+      if (data.preferences.timezone) return;
+      const browserZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      const saved = await fetch("/api/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ timezone: browserZone }),
+      });
+      if (saved.ok) {
+        setBrowserZoneSaved(true);
+      }
+    }
+    void saveBrowserTimeZone();
+  }, [status]);
+
+  async function loadLeagueOptions() {
+    try {
+      const res = await fetch("/api/leagues");
+      if (!res.ok) {
+        throw new Error("Failed to load leagues.");
+      }
+      const data = (await res.json()) as { leagues: LeagueOption[] };
+      setLeagueOptions(data.leagues ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong.");
     }
-  }, [status, selectedDate]);
+  }
+
+  function openSettings() {
+    setShowSettings(true);
+    void loadLeagueOptions();
+  }
+
+  async function toggleSubscription(leagueId: string) {
+    const prevOptions = leagueOptions;
+    const nextOptions = leagueOptions.map((league) =>
+      league.id === leagueId
+        ? { ...league, subscribed: !league.subscribed }
+        : league
+    );
+    setLeagueOptions(nextOptions);
+    setSavingLeagues(true);
+
+    try {
+      const res = await fetch("/api/leagues", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          subscribedLeagues: nextOptions
+            .filter((league) => league.subscribed)
+            .map((league) => league.id),
+        }),
+      });
+      if (!res.ok) {
+        throw new Error("Failed to update leagues.");
+      }
+      await loadEvents(selectedDate, view);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong.");
+      setLeagueOptions(prevOptions);
+    } finally {
+      setSavingLeagues(false);
+    }
+  }
+
+  function applyLeagueOrder(order: string[]) {
+    setLeagueOrder(order);
+    setDays((prev) =>
+      prev.map((day) => ({
+        ...day,
+        leagues: [...day.leagues].sort(
+          (a, b) => order.indexOf(a.id) - order.indexOf(b.id)
+        ),
+      }))
+    );
+  }
 
   function setPending(eventId: string, value: boolean) {
     setPendingIds((prev) => {
@@ -182,7 +324,8 @@ export default function Home() {
     });
   }
 
-  async function toggleWatched(event: EventItem) {
+  // `day` is the calendar day the fixture is listed under
+  async function toggleWatched(event: EventItem, day: string) {
     const isWatched = watchedIds.has(event.eventId);
     const prevWatchedIds = watchedIds;
     const prevStats = stats;
@@ -199,8 +342,8 @@ export default function Home() {
     const today = new Date();
     const weekStart = formatDate(startOfWeek(today));
     const monthStart = formatDate(new Date(today.getFullYear(), today.getMonth(), 1));
-    const isWeek = event.date >= weekStart;
-    const isMonth = event.date >= monthStart;
+    const isWeek = day >= weekStart;
+    const isMonth = day >= monthStart;
     setStats((prev) => ({
       weekCount: prev.weekCount + (isWeek ? delta : 0),
       monthCount: prev.monthCount + (isMonth ? delta : 0),
@@ -225,6 +368,9 @@ export default function Home() {
                 awayTeam: event.awayTeam,
                 homeScore: event.homeScore,
                 awayScore: event.awayScore,
+                status: event.status,
+                stadium: event.venue,
+                country: event.country,
               }
         ),
       });
@@ -269,6 +415,142 @@ export default function Home() {
     );
   }
 
+  const matchCount = days.reduce(
+    (total, day) =>
+      total + day.leagues.reduce((sum, l) => sum + l.events.length, 0),
+    0
+  );
+
+  function renderLeagueList(day: DayGroup) {
+    return (
+      <div className="league-list">
+        {day.leagues
+          .filter(
+            (league) =>
+              league.events.length > 0 || league.status === "error"
+          )
+          .map((league, index) => {
+            const tableKey = `${day.date}:${league.id}`;
+            const isTableOpen = openTable === tableKey;
+            return (
+              <div key={league.id} className="league-group">
+                <div className="league-header">
+                  <div className="league-title">
+                    <img
+                      src={league.badge}
+                      alt={league.name}
+                      className="league-badge-img"
+                    />
+                    <h3>{league.name}</h3>
+                  </div>
+                  <div className="league-meta">
+                    <span className="league-count">
+                      {league.status === "error"
+                        ? "Unavailable"
+                        : `${league.events.length} matches`}
+                      {league.liveCount > 0
+                        ? ` · ${league.liveCount} live`
+                        : null}
+                    </span>
+                    <button
+                      type="button"
+                      className="ghost-button"
+                      onClick={() => setOpenTable(isTableOpen ? null : tableKey)}
+                      aria-expanded={isTableOpen}
+                    >
+                      {isTableOpen ? "Hide table" : "Table"}
+                    </button>
+                  </div>
+                </div>
+                {isTableOpen ? <StandingsPanel leagueId={league.id} /> : null}
+                {league.status === "error" ? (
+                  <p className="form-error">
+                    Couldn&apos;t load fixtures for this league. Try
+                    refreshing in a moment.
+                  </p>
+                ) : null}
+                <ul className="event-list">
+                  {league.events.map((event) => {
+                    const isWatched = watchedIds.has(event.eventId);
+                    const isPending = pendingIds.has(event.eventId);
+                    const isExpanded = expandedId === event.eventId;
+                    const label = statusLabel(event);
+                    const isLive =
+                      event.status === "live" ||
+                      event.status === "half_time";
+                    return (
+                      <li key={event.eventId} className="event-card">
+                        <div>
+                          <p className="event-time">
+                            {formatEventTime(event, timeZone)}
+                            {label ? (
+                              <span
+                                className={
+                                  isLive ? "live-badge" : "status-badge"
+                                }
+                              >
+                                {label}
+                              </span>
+                            ) : null}
+                          </p>
+                          <p className="event-teams">
+                            {event.homeTeam} vs {event.awayTeam}
+                          </p>
+                          <p className="event-score">
+                            {event.homeScore !== null &&
+                            event.awayScore !== null
+                              ? `${event.homeScore} - ${event.awayScore}`
+                              : "Score TBD"}
+                          </p>
+                        </div>
+                        <div className="event-actions">
+                          <button
+                            type="button"
+                            className="ghost-button"
+                            onClick={() => setDetailId(event.eventId)}
+                          >
+                            Match info
+                          </button>
+                          {event.homeTeamId && event.awayTeamId ? (
+                            <button
+                              type="button"
+                              className="ghost-button"
+                              onClick={() =>
+                                setExpandedId(isExpanded ? null : event.eventId)
+                              }
+                              aria-expanded={isExpanded}
+                            >
+                              {isExpanded ? "Hide head-to-head" : "Head-to-head"}
+                            </button>
+                          ) : null}
+                          <button
+                            type="button"
+                            className={
+                              isWatched ? "tag-button" : "ghost-button"
+                            }
+                            onClick={() => toggleWatched(event, day.date)}
+                            disabled={isPending}
+                          >
+                            {isWatched ? "Watched" : "Mark watched"}
+                          </button>
+                        </div>
+                        {isExpanded && event.homeTeamId && event.awayTeamId ? (
+                          <HeadToHeadPanel
+                            homeTeamId={event.homeTeamId}
+                            awayTeamId={event.awayTeamId}
+                          />
+                        ) : null}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            );
+          })}
+      </div>
+    );
+  }
+
   return (
     <div className="page">
       <header className="hero">
@@ -282,7 +564,7 @@ export default function Home() {
               <button
                 type="button"
                 className="ghost-button"
-                onClick={() => setShowSettings(true)}
+                onClick={openSettings}
               >
                 Settings
               </button>
@@ -297,6 +579,7 @@ export default function Home() {
             and your weekly/monthly totals update automatically.
           </p>
         </div>
+        <SearchBox />
         <div className="stats">
           <div className="stat">
             <span>This week</span>
@@ -317,9 +600,21 @@ export default function Home() {
         <section className="panel">
           <div className="panel-header">
             <h2>Pick a day & fixtures</h2>
-            <p>Top 5 leagues + Super Lig + Champions League.</p>
+            <p>Fixtures from the leagues you follow.</p>
           </div>
           <div className="schedule-controls">
+            <label>
+              View
+              <select
+                value={view}
+                onChange={(event) =>
+                  setView(event.target.value as ScheduleView)
+                }
+              >
+                <option value="day">Day</option>
+                <option value="week">Week</option>
+              </select>
+            </label>
             <label>
               Date
               <input
@@ -332,89 +627,60 @@ export default function Home() {
             <button
               type="button"
               className="ghost-button"
-              onClick={() => loadEvents(selectedDate)}
+              onClick={() => loadEvents(selectedDate, view)}
               disabled={loading}
             >
               {loading ? "Refreshing..." : "Refresh fixtures"}
             </button>
             <span className="summary-pill">
-              {formatDisplayDate(selectedDate)}
+              {view === "week"
+                ? `${formatDisplayDate(weekRange(selectedDate).from)} – ${formatDisplayDate(weekRange(selectedDate).to)}`
+                : formatDisplayDate(selectedDate)}
             </span>
           </div>
           <div className="summary-row">
-            <span>
-              {leagues.reduce((sum, l) => sum + l.events.length, 0)} matches
-              found
-            </span>
+            <span>{matchCount} matches found</span>
             <span>{watchedIds.size} marked watched</span>
           </div>
           {error ? <p className="form-error">{error}</p> : null}
           {loading ? (
             <p className="empty-state">Loading fixtures...</p>
-          ) : leagues.length === 0 ? (
-            <p className="empty-state">No fixtures found for this day.</p>
-          ) : (
-            <div className="league-list">
-              {leagues
-                .filter((league) => league.events.length > 0)
-                .map((league, index) => (
-                  <div key={league.id} className="league-group">
-                    <div className="league-header">
-                      <div className="league-title">
-                        <img
-                          src={league.badge}
-                          alt={league.name}
-                          className="league-badge-img"
-                        />
-                        <h3>{league.name}</h3>
-                      </div>
-                      <span className="league-count">
-                        {league.events.length} matches
-                      </span>
-                    </div>
-                    <ul className="event-list">
-                      {league.events.map((event) => {
-                        const isWatched = watchedIds.has(event.eventId);
-                        const isPending = pendingIds.has(event.eventId);
-                        const isLive = isMatchLive(event.date, event.time);
-                        return (
-                          <li key={event.eventId} className="event-card">
-                            <div>
-                              <p className="event-time">
-                                {formatEventTime(event.date, event.time)}
-                                {isLive && <span className="live-badge">LIVE</span>}
-                              </p>
-                              <p className="event-teams">
-                                {event.homeTeam} vs {event.awayTeam}
-                              </p>
-                              <p className="event-score">
-                                {event.homeScore !== null &&
-                                event.awayScore !== null
-                                  ? `${event.homeScore} - ${event.awayScore}`
-                                  : "Score TBD"}
-                              </p>
-                            </div>
-                            <button
-                              type="button"
-                              className={
-                                isWatched ? "tag-button" : "ghost-button"
-                              }
-                              onClick={() => toggleWatched(event)}
-                              disabled={isPending}
-                            >
-                              {isWatched ? "Watched" : "Mark watched"}
-                            </button>
-                          </li>
-                        );
-                      })}
-                    </ul>
-                  </div>
-                ))}
+          ) : days.every((day) => day.leagues.length === 0) ? (
+            <p className="empty-state">
+              {view === "week"
+                ? "No fixtures found for this week."
+                : "No fixtures found for this day."}
+            </p>
+          ) : view === "week" ? (
+            <div className="day-list">
+              {days.map((day) => (
+                <div key={day.date} className="day-group">
+                  <h3 className="day-header">{formatDisplayDate(day.date)}</h3>
+                  {day.leagues.some(
+                    (league) =>
+                      league.events.length > 0 || league.status === "error"
+                  ) ? (
+                    renderLeagueList(day)
+                  ) : (
+                    <p className="empty-state">No fixtures.</p>
+                  )}
+                </div>
+              ))}
             </div>
-          )}
+          ) : days[0] ? (
+            renderLeagueList(days[0])
+          ) : null}
         </section>
       </main>
 
+      {detailId ? (
+        <MatchDetail
+          eventId={detailId}
+          timeZone={timeZone}
+          onClose={() => setDetailId(null)}
+        />
+      ) : null}
+
       {showSettings && (
         <div className="modal-overlay" onClick={() => setShowSettings(false)}>
           <div className="modal-content" onClick={(e) => e.stopPropagation()}>
@@ -430,6 +696,33 @@ export default function Home() {
             </div>
 
             <div className="modal-body">
+              <div className="settings-section">
+                <h3>Leagues</h3>
+                <p className="settings-description">
+                  Choose which leagues appear in your fixtures
+                </p>
+                <div className="league-order-list">
+                  {leagueOptions.map((league) => (
+                    <label key={league.id} className="league-order-item">
+                      <div className="league-order-info">
+                        <img
+                          src={league.badge}
+                          alt={league.name}
+                          className="league-badge-img"
+                        />
+                        <span>{league.name}</span>
+                      </div>
+                      <input
+                        type="checkbox"
+                        checked={league.subscribed}
+                        disabled={savingLeagues}
+                        onChange={() => toggleSubscription(league.id)}
+                      />
+                    </label>
+                  ))}
+                </div>
+              </div>
+
               <div className="settings-section">
                 <h3>League Order</h3>
                 <p className="settings-description">
@@ -437,7 +730,9 @@ export default function Home() {
                 </p>
                 <div className="league-order-list">
                   {leagueOrder.map((leagueId, index) => {
-                    const league = leagues.find((l) => l.id === leagueId);
+                    const league = days[0]?.leagues.find(
+                      (l) => l.id === leagueId
+                    );
                     if (!league) return null;
                     return (
                       <div key={leagueId} className="league-order-item">
@@ -460,14 +755,7 @@ export default function Home() {
                                 newOrder[index],
                                 newOrder[index - 1],
                               ];
-                              setLeagueOrder(newOrder);
-                              setLeagues((prev) =>
-                                [...prev].sort(
-                                  (a, b) =>
-                                    newOrder.indexOf(a.id) -
-                                    newOrder.indexOf(b.id)
-                                )
-                              );
+                              applyLeagueOrder(newOrder);
                             }}
                           >
                             ▲
@@ -482,14 +770,7 @@ export default function Home() {
                                 newOrder[index + 1],
                                 newOrder[index],
                               ];
-                              setLeagueOrder(newOrder);
-                              setLeagues((prev) =>
-                                [...prev].sort(
-                                  (a, b) =>
-                                    newOrder.indexOf(a.id) -
-                                    newOrder.indexOf(b.id)
-                                )
-                              );
+                              applyLeagueOrder(newOrder);
                             }}
                           >
                             ▼
@@ -0,0 +1,148 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { SearchResponse, SearchResult } from "@/lib/search";
+
+const MIN_QUERY_LENGTH = 2;
+const DEBOUNCE_MS = 300;
+
+const TYPE_LABELS: Record<SearchResult["type"], string> = {
+  history: "Watched",
+  fixture: "Upcoming",
+  team: "Team",
+};
+
+const kickoffFormatter = new Intl.DateTimeFormat("en-US", {
+  weekday: "short",
+  month: "short",
+  day: "numeric",
+  hour: "2-digit",
+  minute: "2-digit",
+});
+
+function describeResult(result: SearchResult) {
+  switch (result.type) {
+    case "history": {
+      const { match } = result;
+      const score =
+        match.homeScore !== null && match.awayScore !== null
+          ? ` ${match.homeScore} - ${match.awayScore} `
+          : " vs ";
+      return {
+        key: `history-${match.id}`,
+        title: `${match.homeTeam}${score}${match.awayTeam}`,
+        detail: `${match.league} · ${match.date}`,
+      };
+    }
+    case "fixture": {
+      const { event } = result;
+      return {
+        key: `fixture-${event.eventId}`,
+        title: `${event.homeTeam} vs ${event.awayTeam}`,
+        detail: `${event.leagueName} · ${
+          event.kickoffAt
+            ? kickoffFormatter.format(new Date(event.kickoffAt))
+            : event.date
+        }`,
+      };
+    }
+    case "team":
+      return {
+        key: `team-${result.team.teamId}`,
+        title: result.team.name,
+        detail: [result.team.leagueName, result.team.country]
+          .filter(Boolean)
+          .join(" · "),
+      };
+  }
+}
+
+// Searches the viewing log, teams and upcoming fixtures as the user types
+export default function SearchBox() {
+  const [query, setQuery] = useState("");
+  const [response, setResponse] = useState<SearchResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setResponse(null);
+      setError(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const res = await fetch(
+          `/api/search?q=${encodeURIComponent(trimmed)}`,
+          { signal: controller.signal }
+        );
+        if (!res.ok) {
+          throw new Error("Search failed.");
+        }
+        setResponse((await res.json()) as SearchResponse);
+        setError(null);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : "Something went wrong.");
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  return (
+    <div className="search-box">
+      <input
+        type="search"
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+        placeholder="Search teams, leagues or dates (2024-05)"
+        aria-label="Search"
+      />
+      {error ? <p className="form-error">{error}</p> : null}
+      {response && query.trim().length >= MIN_QUERY_LENGTH ? (
+        <div className="search-results">
+          {response.providerError ? (
+            <p className="form-note">
+              Fixture search is unavailable right now; showing your history
+              only.
+            </p>
+          ) : null}
+          {response.results.length === 0 ? (
+            <p className="empty-state">
+              {loading ? "Searching..." : "Nothing found."}
+            </p>
+          ) : (
+            <ul>
+              {response.results.map((result) => {
+                const { key, title, detail } = describeResult(result);
+                return (
+                  <li key={key} className="search-result">
+                    <span className={`search-type search-type-${result.type}`}>
+                      {TYPE_LABELS[result.type]}
+                    </span>
+                    <div>
+                      <strong>{title}</strong>
+                      {detail ? <small>{detail}</small> : null}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { StandingRow } from "@/lib/fixtures";
+
+type StandingsResponse = {
+  leagueId: string;
+  leagueName: string;
+  season: string;
+  rows: (StandingRow & { favorite: boolean })[];
+};
+
+// Current league table, loaded when a league group's table is opened
+export default function StandingsPanel({ leagueId }: { leagueId: string }) {
+  const [data, setData] = useState<StandingsResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    async function load() {
+      try {
+        const res = await fetch(
+          `/api/standings?leagueId=${encodeURIComponent(leagueId)}`,
+          { signal: controller.signal }
+        );
+        if (!res.ok) {
+          throw new Error("Couldn't load the table.");
+        }
+        setData((await res.json()) as StandingsResponse);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : "Something went wrong.");
+      }
+    }
+    load();
+    return () => controller.abort();
+  }, [leagueId]);
+
+  if (error) {
+    return <p className="form-error">{error}</p>;
+  }
+  if (!data) {
+    return <p className="empty-state">Loading table...</p>;
+  }
+  if (data.rows.length === 0) {
+    return (
+      <p className="empty-state">No table available for {data.season}.</p>
+    );
+  }
+
+  return (
+    <div className="standings-panel">
+      <table className="standings-table">
+        <caption>{data.season}</caption>
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>Team</th>
+            <th>P</th>
+            <th>W</th>
+            <th>D</th>
+            <th>L</th>
+            <th>GD</th>
+            <th>Pts</th>
+            <th>Form</th>
+          </tr>
+        </thead>
+        <tbody>
+          {data.rows.map((row) => (
+            <tr
+              key={row.teamId}
+              className={row.favorite ? "standings-favorite" : undefined}
+              title={row.description ?? undefined}
+            >
+              <td>{row.position}</td>
+              <td className="standings-team">{row.teamName}</td>
+              <td>{row.played}</td>
+              <td>{row.won}</td>
+              <td>{row.drawn}</td>
+              <td>{row.lost}</td>
+              <td>
+                {row.goalDifference > 0
+                  ? `+${row.goalDifference}`
+                  : row.goalDifference}
+              </td>
+              <td>
+                <strong>{row.points}</strong>
+              </td>
+              <td className="standings-form">{row.form ?? ""}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -2,22 +2,81 @@
 
 import Link from "next/link";
 import { signIn, signOut, useSession } from "next-auth/react";
-import { useEffect, useMemo, useState } from "react";
+import { type FormEvent, useEffect, useMemo, useState } from "react";
+import MatchDetail from "@/app/match-detail";
+import SearchBox from "@/app/search-box";
 
 type WatchedEvent = {
   id: number;
-  eventId: string;
-  leagueId: string;
+  eventId: string | null;
+  leagueId: string | null;
   leagueName: string;
   date: string;
   time: string | null;
+  kickoffAt: string | null;
   homeTeam: string;
   awayTeam: string;
   homeScore: number | null;
   awayScore: number | null;
+  source: "fixture" | "manual";
+  medium: ViewingMedium | null;
+  venue: string | null;
+  company: string | null;
+  rating: number | null;
+  notes: string | null;
+  attended: boolean;
+  stadium: string | null;
+  country: string | null;
   createdAt: string;
 };
 
+type ViewingMedium = "stadium" | "tv" | "stream" | "pub" | "other";
+
+type ContextForm = {
+  medium: ViewingMedium | "";
+  venue: string;
+  company: string;
+  rating: string;
+  notes: string;
+  attended: boolean;
+  stadium: string;
+  country: string;
+};
+
+const MEDIUM_LABELS: Record<ViewingMedium, string> = {
+  stadium: "At the stadium",
+  tv: "On TV",
+  stream: "Streaming",
+  pub: "At a pub",
+  other: "Other",
+};
+
+function describeContext(event: WatchedEvent) {
+  const parts: string[] = [];
+  if (event.attended) {
+    parts.push(event.stadium ? `Attended at ${event.stadium}` : "Attended");
+  }
+  if (event.medium) parts.push(MEDIUM_LABELS[event.medium]);
+  if (event.venue) parts.push(event.venue);
+  if (event.company) parts.push(`with ${event.company}`);
+  if (event.rating !== null) parts.push(`${event.rating}/10`);
+  return parts.join(" · ");
+}
+
+type Stats = {
+  weekCount: number;
+  monthCount: number;
+  totalCount: number;
+};
+
+type StatsReport = {
+  goalsPerGame: number | null;
+  teams: { team: string; count: number }[];
+  leagues: { league: string; count: number }[];
+  weekdays: { weekday: string; count: number }[];
+  longestStreak: { days: number; start: string; end: string } | null;
+};
+
 const dateFormatter = new Intl.DateTimeFormat("en-US", {
   weekday: "short",
   month: "short",
@@ -25,12 +84,6 @@ const dateFormatter = new Intl.DateTimeFormat("en-US", {
   year: "numeric",
 });
 
-const busiestDateFormatter = new Intl.DateTimeFormat("en-US", {
-  day: "2-digit",
-  month: "short",
-  year: "numeric",
-});
-
 function formatDisplayDate(value: string | Date) {
   const date =
     value instanceof Date
@@ -44,161 +97,71 @@ function formatDisplayDate(value: string | Date) {
   return dateFormatter.format(date);
 }
 
-function formatEventTime(date: string, time: string | null) {
-  if (!time) {
-    return "TBD";
-  }
-  if (time.includes("T")) {
-    const parsed = new Date(time);
-    if (!Number.isNaN(parsed.getTime())) {
-      return parsed.toLocaleTimeString("en-GB", {
-        hour: "2-digit",
-        minute: "2-digit",
-        hour12: false,
-      });
-    }
-  }
-  const iso = date ? `${date}T${time}Z` : "";
-  if (iso) {
-    const parsed = new Date(iso);
+// Kickoff in the user's saved timezone; entries without a known time show TBD
+function formatEventTime(match: WatchedEvent, timeZone?: string) {
+  if (match.kickoffAt) {
+    const parsed = new Date(match.kickoffAt);
     if (!Number.isNaN(parsed.getTime())) {
       return parsed.toLocaleTimeString("en-GB", {
+        timeZone,
         hour: "2-digit",
         minute: "2-digit",
         hour12: false,
       });
     }
   }
-  return time.length >= 5 ? time.slice(0, 5) : time;
-}
-
-function formatDate(date: Date) {
-  const yyyy = date.getFullYear();
-  const mm = `${date.getMonth() + 1}`.padStart(2, "0");
-  const dd = `${date.getDate()}`.padStart(2, "0");
-  return `${yyyy}-${mm}-${dd}`;
+  return "TBD";
 }
 
-function localDateKey(date: string | null, time: string | null, createdAt: string) {
-  if (date) {
-    if (date.includes("T")) {
-      const parsed = new Date(date);
-      if (!Number.isNaN(parsed.getTime())) {
-        return formatDate(parsed);
-      }
-    }
-    if (time) {
-      const parsed = new Date(`${date}T${time}Z`);
-      if (!Number.isNaN(parsed.getTime())) {
-        return formatDate(parsed);
-      }
-    }
-    return date.slice(0, 10);
-  }
-  const fallback = new Date(createdAt);
-  if (!Number.isNaN(fallback.getTime())) {
-    return formatDate(fallback);
+// YYYY-MM-DD the match was played on in the user's timezone
+function localDateKey(match: WatchedEvent, timeZone?: string) {
+  if (!match.kickoffAt) {
+    return match.date;
   }
-  return null;
-}
-
-function startOfWeek(date: Date) {
-  const day = date.getDay();
-  const diff = (day + 6) % 7;
-  const start = new Date(date);
-  start.setDate(date.getDate() - diff);
-  start.setHours(0, 0, 0, 0);
-  return start;
+  // en-CA formats dates as YYYY-MM-DD
+  return new Date(match.kickoffAt).toLocaleDateString("en-CA", { timeZone });
 }
 
 export default function WatchedPage() {
   const { data: session, status } = useSession();
   const [events, setEvents] = useState<WatchedEvent[]>([]);
+  const [timeZone, setTimeZone] = useState<string | undefined>();
+  const [stats, setStats] = useState<Stats>({
+    weekCount: 0,
+    monthCount: 0,
+    totalCount: 0,
+  });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [pendingIds, setPendingIds] = useState<Set<string>>(new Set());
+  const [editingEvent, setEditingEvent] = useState<WatchedEvent | null>(null);
+  const [detailId, setDetailId] = useState<string | null>(null);
+  const [contextForm, setContextForm] = useState<ContextForm>({
+    medium: "",
+    venue: "",
+    company: "",
+    rating: "",
+    notes: "",
+    attended: false,
+    stadium: "",
+    country: "",
+  });
+  const [groundCount, setGroundCount] = useState(0);
+  const [report, setReport] = useState<StatsReport | null>(null);
+  const [savingContext, setSavingContext] = useState(false);
+  const [contextError, setContextError] = useState<string | null>(null);
 
   const groupedEvents = useMemo(() => {
     const grouped = new Map<string, WatchedEvent[]>();
     events.forEach((event) => {
-      if (!grouped.has(event.date)) {
-        grouped.set(event.date, []);
+      const day = localDateKey(event, timeZone);
+      if (!grouped.has(day)) {
+        grouped.set(day, []);
       }
-      grouped.get(event.date)?.push(event);
+      grouped.get(day)?.push(event);
     });
     return Array.from(grouped.entries());
-  }, [events]);
-
-  const insights = useMemo(() => {
-    if (events.length === 0) {
-      return {
-        topTeam: "—",
-        topLeague: "—",
-        topWeekday: "—",
-        weekCount: 0,
-        monthCount: 0,
-        totalCount: 0,
-      };
-    }
-
-    const teamCounts = new Map<string, number>();
-    const leagueCounts = new Map<string, number>();
-    const dayCounts = new Map<string, number>();
-    const now = new Date();
-    const weekStart = formatDate(startOfWeek(now));
-    const monthStart = formatDate(new Date(now.getFullYear(), now.getMonth(), 1));
-    let weekCount = 0;
-    let monthCount = 0;
-
-    events.forEach((event) => {
-      const teams = [event.homeTeam, event.awayTeam].filter(Boolean);
-      teams.forEach((team) => {
-        teamCounts.set(team, (teamCounts.get(team) ?? 0) + 1);
-      });
-      leagueCounts.set(
-        event.leagueName,
-        (leagueCounts.get(event.leagueName) ?? 0) + 1
-      );
-      const dayKey = localDateKey(event.date, event.time, event.createdAt);
-      if (dayKey) {
-        dayCounts.set(dayKey, (dayCounts.get(dayKey) ?? 0) + 1);
-      }
-
-      if (dayKey && dayKey >= weekStart) {
-        weekCount += 1;
-      }
-      if (dayKey && dayKey >= monthStart) {
-        monthCount += 1;
-      }
-    });
-
-    function pickTop(map: Map<string, number>) {
-      let topName = "—";
-      let topValue = 0;
-      map.forEach((value, key) => {
-        if (value > topValue) {
-          topName = key;
-          topValue = value;
-        }
-      });
-      return topName;
-    }
-
-    const busiestDayKey = pickTop(dayCounts);
-    const busiestDay =
-      busiestDayKey === "—"
-        ? "—"
-        : busiestDateFormatter.format(new Date(`${busiestDayKey}T00:00:00`));
-
-    return {
-      topTeam: pickTop(teamCounts),
-      topLeague: pickTop(leagueCounts),
-      topWeekday: busiestDay,
-      weekCount,
-      monthCount,
-      totalCount: events.length,
-    };
-  }, [events]);
+  }, [events, timeZone]);
 
   async function loadWatchedEvents() {
     setLoading(true);
@@ -212,8 +175,14 @@ export default function WatchedPage() {
       if (!res.ok) {
         throw new Error("Failed to load watched matches.");
       }
-      const data = (await res.json()) as { events: WatchedEvent[] };
+      const data = (await res.json()) as {
+        events: WatchedEvent[];
+        stats: Stats;
+        timeZone: string;
+      };
       setEvents(data.events);
+      setTimeZone(data.timeZone);
+      setStats(data.stats);
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Something went wrong.");
@@ -222,9 +191,32 @@ export default function WatchedPage() {
     }
   }
 
+  async function loadReport() {
+    try {
+      const res = await fetch("/api/stats");
+      if (!res.ok) return;
+      setReport((await res.json()) as StatsReport);
+    } catch {
+      // Insights are optional; keep the last known values
+    }
+  }
+
+  async function loadGroundCount() {
+    try {
+      const res = await fetch("/api/watched/grounds");
+      if (!res.ok) return;
+      const data = (await res.json()) as { groundCount: number };
+      setGroundCount(data.groundCount);
+    } catch {
+      // The stat is optional; keep the last known value
+    }
+  }
+
   useEffect(() => {
     if (status === "authenticated") {
       void loadWatchedEvents();
+      void loadReport();
+      void loadGroundCount();
       return;
     }
     if (status === "unauthenticated") {
@@ -248,7 +240,9 @@ export default function WatchedPage() {
 
   async function unwatchEvent(eventId: string) {
     const prevEvents = events;
+    const prevStats = stats;
     setEvents(events.filter((event) => event.eventId !== eventId));
+    setStats((prev) => ({ ...prev, totalCount: prev.totalCount - 1 }));
     setPending(eventId, true);
     try {
       const res = await fetch("/api/watched", {
@@ -259,14 +253,64 @@ export default function WatchedPage() {
       if (!res.ok) {
         throw new Error("Failed to unwatch match.");
       }
+      await loadWatchedEvents();
+      void loadReport();
     } catch (err) {
       setEvents(prevEvents);
+      setStats(prevStats);
       setError(err instanceof Error ? err.message : "Something went wrong.");
     } finally {
       setPending(eventId, false);
     }
   }
 
+  function openContextEditor(event: WatchedEvent) {
+    setEditingEvent(event);
+    setContextForm({
+      medium: event.medium ?? "",
+      venue: event.venue ?? "",
+      company: event.company ?? "",
+      rating: event.rating === null ? "" : String(event.rating),
+      notes: event.notes ?? "",
+      attended: event.attended,
+      stadium: event.stadium ?? "",
+      country: event.country ?? "",
+    });
+    setContextError(null);
+  }
+
+  async function saveContext(e: FormEvent) {
+    e.preventDefault();
+    if (!editingEvent) return;
+    setSavingContext(true);
+    try {
+      const res = await fetch("/api/watched", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: editingEvent.id, ...contextForm }),
+      });
+      const data = (await res.json()) as {
+        record?: WatchedEvent;
+        error?: string;
+      };
+      if (!res.ok || !data.record) {
+        throw new Error(data.error ?? "Failed to save details.");
+      }
+      const record = data.record;
+      setEvents((prev) =>
+        prev.map((event) => (event.id === record.id ? record : event))
+      );
+      setEditingEvent(null);
+      void loadGroundCount();
+    } catch (err) {
+      setContextError(
+        err instanceof Error ? err.message : "Something went wrong."
+      );
+    } finally {
+      setSavingContext(false);
+    }
+  }
+
   if (status !== "authenticated") {
     return (
       <div className="page auth-page">
@@ -305,6 +349,9 @@ export default function WatchedPage() {
               <Link href="/" className="ghost-button">
                 Back to fixtures
               </Link>
+              <Link href="/wrapped" className="ghost-button">
+                Year in review
+              </Link>
               <button
                 type="button"
                 className="ghost-button"
@@ -323,30 +370,51 @@ export default function WatchedPage() {
             needed.
           </p>
         </div>
+        <SearchBox />
         <div className="stats">
           <div className="stat">
             <span>Most watched team</span>
-            <strong>{insights.topTeam}</strong>
+            <strong>{report?.teams[0]?.team ?? "—"}</strong>
           </div>
           <div className="stat">
             <span>Top league</span>
-            <strong>{insights.topLeague}</strong>
+            <strong>{report?.leagues[0]?.league ?? "—"}</strong>
           </div>
           <div className="stat">
-            <span>Busiest day</span>
-            <strong>{insights.topWeekday}</strong>
+            <span>Busiest weekday</span>
+            <strong>
+              {report?.weekdays[0]?.count ? report.weekdays[0].weekday : "—"}
+            </strong>
+          </div>
+          <div className="stat">
+            <span>Goals per game</span>
+            <strong>{report?.goalsPerGame ?? "—"}</strong>
+          </div>
+          <div className="stat">
+            <span>Longest streak</span>
+            <strong>
+              {report?.longestStreak
+                ? `${report.longestStreak.days} day${
+                    report.longestStreak.days === 1 ? "" : "s"
+                  }`
+                : "—"}
+            </strong>
           </div>
           <div className="stat">
             <span>This week</span>
-            <strong>{insights.weekCount}</strong>
+            <strong>{stats.weekCount}</strong>
           </div>
           <div className="stat">
             <span>This month</span>
-            <strong>{insights.monthCount}</strong>
+            <strong>{stats.monthCount}</strong>
           </div>
           <div className="stat">
             <span>Total watched</span>
-            <strong>{insights.totalCount}</strong>
+            <strong>{stats.totalCount}</strong>
+          </div>
+          <div className="stat">
+            <span>Grounds visited</span>
+            <strong>{groundCount}</strong>
           </div>
         </div>
       </header>
@@ -355,7 +423,7 @@ export default function WatchedPage() {
         <section className="panel">
           <div className="panel-header">
             <h2>All watched matches</h2>
-            <p>{events.length} total</p>
+            <p>{stats.totalCount} total</p>
           </div>
           {loading ? (
             <p className="empty-state">Loading watched matches...</p>
@@ -379,28 +447,59 @@ export default function WatchedPage() {
                     {items.map((match) => (
                       <li key={match.id} className="log-item">
                         <span className="log-time">
-                          {formatEventTime(match.date, match.time)}
+                          {formatEventTime(match, timeZone)}
                         </span>
                         <span className="log-teams">
                           {match.homeTeam} vs {match.awayTeam}
                         </span>
-                        <span className="log-league">{match.leagueName}</span>
+                        <span className="log-league">
+                          {match.leagueName}
+                          {match.source === "manual" ? " · Logged manually" : ""}
+                        </span>
                         <span className="log-score">
                           {match.homeScore !== null &&
                           match.awayScore !== null
                             ? `${match.homeScore} - ${match.awayScore}`
                             : "Score TBD"}
                         </span>
-                        <button
-                          type="button"
-                          className="ghost-button"
-                          onClick={() => unwatchEvent(match.eventId)}
-                          disabled={pendingIds.has(match.eventId)}
-                        >
-                          {pendingIds.has(match.eventId)
-                            ? "Removing..."
-                            : "Unwatch"}
-                        </button>
+                        <div className="log-actions">
+                          <button
+                            type="button"
+                            className="ghost-button"
+                            onClick={() => openContextEditor(match)}
+                          >
+                            Details
+                          </button>
+                          {match.eventId ? (
+                            <button
+                              type="button"
+                              className="ghost-button"
+                              onClick={() => setDetailId(match.eventId)}
+                            >
+                              Match info
+                            </button>
+                          ) : null}
+                          {match.eventId ? (
+                            <button
+                              type="button"
+                              className="ghost-button"
+                              onClick={() => unwatchEvent(match.eventId!)}
+                              disabled={pendingIds.has(match.eventId)}
+                            >
+                              {pendingIds.has(match.eventId)
+                                ? "Removing..."
+                                : "Unwatch"}
+                            </button>
+                          ) : null}
+                        </div>
+                        {describeContext(match) || match.notes ? (
+                          <div className="log-context">
+                            {describeContext(match) ? (
+                              <span>{describeContext(match)}</span>
+                            ) : null}
+                            {match.notes ? <p>{match.notes}</p> : null}
+                          </div>
+                        ) : null}
                       </li>
                     ))}
                   </ul>
@@ -410,6 +509,156 @@ export default function WatchedPage() {
           )}
         </section>
       </main>
+
+      {detailId ? (
+        <MatchDetail
+          eventId={detailId}
+          timeZone={timeZone}
+          onClose={() => setDetailId(null)}
+        />
+      ) : null}
+
+      {editingEvent && (
+        <div className="modal-overlay" onClick={() => setEditingEvent(null)}>
+          <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+            <div className="modal-header">
+              <h2>
+                {editingEvent.homeTeam} vs {editingEvent.awayTeam}
+              </h2>
+              <button
+                type="button"
+                className="modal-close"
+                onClick={() => setEditingEvent(null)}
+              >
+                ✕
+              </button>
+            </div>
+
+            <form className="match-form" onSubmit={saveContext}>
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={contextForm.attended}
+                  onChange={(e) =>
+                    setContextForm({
+                      ...contextForm,
+                      attended: e.target.checked,
+                    })
+                  }
+                />
+                Attended in person
+              </label>
+              {contextForm.attended ? (
+                <>
+                  <label>
+                    Stadium
+                    <input
+                      type="text"
+                      maxLength={200}
+                      placeholder="Filled in from the fixture if left empty"
+                      value={contextForm.stadium}
+                      onChange={(e) =>
+                        setContextForm({
+                          ...contextForm,
+                          stadium: e.target.value,
+                        })
+                      }
+                    />
+                  </label>
+                  <label>
+                    Country
+                    <input
+                      type="text"
+                      maxLength={100}
+                      value={contextForm.country}
+                      onChange={(e) =>
+                        setContextForm({
+                          ...contextForm,
+                          country: e.target.value,
+                        })
+                      }
+                    />
+                  </label>
+                </>
+              ) : null}
+              <label>
+                How did you watch?
+                <select
+                  value={contextForm.medium}
+                  onChange={(e) =>
+                    setContextForm({
+                      ...contextForm,
+                      medium: e.target.value as ContextForm["medium"],
+                    })
+                  }
+                >
+                  <option value="">Not set</option>
+                  {(Object.keys(MEDIUM_LABELS) as ViewingMedium[]).map(
+                    (medium) => (
+                      <option key={medium} value={medium}>
+                        {MEDIUM_LABELS[medium]}
+                      </option>
+                    )
+                  )}
+                </select>
+              </label>
+              <label>
+                Where
+                <input
+                  type="text"
+                  maxLength={200}
+                  placeholder="Stadium, pub, living room..."
+                  value={contextForm.venue}
+                  onChange={(e) =>
+                    setContextForm({ ...contextForm, venue: e.target.value })
+                  }
+                />
+              </label>
+              <label>
+                Watched with
+                <input
+                  type="text"
+                  maxLength={200}
+                  value={contextForm.company}
+                  onChange={(e) =>
+                    setContextForm({ ...contextForm, company: e.target.value })
+                  }
+                />
+              </label>
+              <label>
+                Rating (1–10)
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  step={1}
+                  value={contextForm.rating}
+                  onChange={(e) =>
+                    setContextForm({ ...contextForm, rating: e.target.value })
+                  }
+                />
+              </label>
+              <label>
+                Notes
+                <textarea
+                  rows={4}
+                  maxLength={2000}
+                  value={contextForm.notes}
+                  onChange={(e) =>
+                    setContextForm({ ...contextForm, notes: e.target.value })
+                  }
+                />
+              </label>
+              {contextError ? (
+                <p className="form-error">{contextError}</p>
+              ) : null}
+              <button type="submit" disabled={savingContext}>
+                {savingContext ? "Saving..." : "Save details"}
+              </button>
+            </form>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
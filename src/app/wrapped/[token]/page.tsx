@@ -0,0 +1,51 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import WrappedSummary from "@/app/wrapped/wrapped-summary";
+import { getUserPreferences, getWrappedShare } from "@/lib/db";
+import { getYearInReview } from "@/lib/stats";
+import { resolveTimeZone } from "@/lib/timezone";
+
+export const dynamic = "force-dynamic";
+
+type PageProps = { params: Promise<{ token: string }> };
+
+export async function generateMetadata({
+  params,
+}: PageProps): Promise<Metadata> {
+  const { token } = await params;
+  const share = await getWrappedShare(token);
+  if (!share) {
+    return { title: "Matchlog Wrapped" };
+  }
+  return {
+    title: `${share.userName ?? "A fan"}'s ${share.year} · Matchlog Wrapped`,
+  };
+}
+
+// Public, read-only recap behind a share link
+export default async function SharedWrappedPage({ params }: PageProps) {
+  const { token } = await params;
+  const share = await getWrappedShare(token);
+  if (!share) {
+    notFound();
+  }
+  // The recap follows the owner's timezone, not the visitor's
+  const preferences = await getUserPreferences(share.userId);
+  const recap = await getYearInReview(
+    share.userId,
+    share.year,
+    resolveTimeZone(preferences.timezone)
+  );
+
+  return (
+    <div className="page">
+      <header className="hero">
+        <WrappedSummary recap={recap} owner={share.userName} />
+      </header>
+      <Link href="/" className="ghost-button">
+        Start your own Matchlog
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import Link from "next/link";
+import { signIn, useSession } from "next-auth/react";
+import { useEffect, useState } from "react";
+import WrappedSummary from "@/app/wrapped/wrapped-summary";
+import type { YearInReview } from "@/lib/stats";
+
+const currentYear = new Date().getFullYear();
+const YEARS = Array.from({ length: 5 }, (_, index) => currentYear - index);
+
+export default function WrappedPage() {
+  const { status } = useSession();
+  const [year, setYear] = useState(currentYear);
+  const [recap, setRecap] = useState<YearInReview | null>(null);
+  const [shareToken, setShareToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [sharing, setSharing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function loadRecap(selectedYear: number) {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/wrapped?year=${selectedYear}`);
+      if (!res.ok) {
+        throw new Error("Failed to load your year in review.");
+      }
+      const data = (await res.json()) as {
+        recap: YearInReview;
+        shareToken: string | null;
+      };
+      setRecap(data.recap);
+      setShareToken(data.shareToken);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    if (status === "authenticated") {
+      void loadRecap(year);
+    }
+  }, [status, year]);
+
+  async function toggleSharing() {
+    setSharing(true);
+    try {
+      const res = await fetch("/api/wrapped/share", {
+        method: shareToken ? "DELETE" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ year }),
+      });
+      if (!res.ok) {
+        throw new Error("Failed to update sharing.");
+      }
+      const data = (await res.json()) as { token?: string };
+      setShareToken(data.token ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong.");
+    } finally {
+      setSharing(false);
+    }
+  }
+
+  if (status !== "authenticated") {
+    return (
+      <div className="page auth-page">
+        <header className="hero auth-hero">
+          <div>
+            <p className="eyebrow">Matchlog Wrapped</p>
+            <h1>Your year in football.</h1>
+            <p className="hero-copy">
+              Sign in to see the recap of everything you watched this year.
+            </p>
+          </div>
+          <div className="auth-cta">
+            <button
+              type="button"
+              className="primary-button"
+              onClick={() => signIn("google")}
+            >
+              Continue with Google
+            </button>
+            <Link href="/" className="ghost-button">
+              Back to fixtures
+            </Link>
+          </div>
+        </header>
+      </div>
+    );
+  }
+
+  const shareUrl =
+    shareToken && typeof window !== "undefined"
+      ? `${window.location.origin}/wrapped/${shareToken}`
+      : null;
+
+  return (
+    <div className="page">
+      <header className="hero">
+        <div className="auth-bar">
+          <div className="auth-info">
+            <select
+              value={year}
+              onChange={(e) => setYear(Number(e.target.value))}
+            >
+              {YEARS.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+            <div className="auth-actions">
+              <Link href="/watched" className="ghost-button">
+                Watched matches
+              </Link>
+              <button
+                type="button"
+                className="ghost-button"
+                onClick={toggleSharing}
+                disabled={sharing || loading}
+              >
+                {shareToken ? "Stop sharing" : "Share"}
+              </button>
+            </div>
+          </div>
+        </div>
+        {shareUrl ? (
+          <p className="hero-copy">
+            Anyone with this link can see your recap:{" "}
+            <a href={shareUrl}>{shareUrl}</a>
+          </p>
+        ) : null}
+        {loading ? (
+          <p className="empty-state">Loading your year in review...</p>
+        ) : error ? (
+          <p className="form-error">{error}</p>
+        ) : recap ? (
+          <WrappedSummary recap={recap} />
+        ) : null}
+      </header>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import type { RecapMatch, YearInReview } from "@/lib/stats";
+
+const MONTH_LABELS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+const dateFormatter = new Intl.DateTimeFormat("en-US", {
+  month: "short",
+  day: "numeric",
+});
+
+function formatRecapDate(value: string) {
+  const date = new Date(`${value}T00:00:00`);
+  return Number.isNaN(date.getTime()) ? value : dateFormatter.format(date);
+}
+
+function describeMatch(match: RecapMatch) {
+  const score =
+    match.homeScore !== null && match.awayScore !== null
+      ? ` ${match.homeScore} - ${match.awayScore} `
+      : " vs ";
+  return `${match.homeTeam}${score}${match.awayTeam}`;
+}
+
+function MatchCard({
+  label,
+  match,
+}: {
+  label: string;
+  match: RecapMatch | null;
+}) {
+  return (
+    <div className="wrapped-card">
+      <span>{label}</span>
+      {match ? (
+        <>
+          <strong>{describeMatch(match)}</strong>
+          <small>
+            {match.league} · {formatRecapDate(match.date)}
+          </small>
+        </>
+      ) : (
+        <strong>—</strong>
+      )}
+    </div>
+  );
+}
+
+// Rendered both on the signed-in recap page and on public share links, so it
+// only takes data and holds no state
+export default function WrappedSummary({
+  recap,
+  owner,
+}: {
+  recap: YearInReview;
+  owner?: string | null;
+}) {
+  const busiestMonth = Math.max(...recap.months, 1);
+
+  return (
+    <section className="wrapped">
+      <div>
+        <p className="eyebrow">Matchlog Wrapped</p>
+        <h1>
+          {owner ? `${owner}'s ${recap.year}` : `Your ${recap.year}`} in
+          football
+        </h1>
+      </div>
+
+      <div className="stats">
+        <div className="stat">
+          <span>Matches watched</span>
+          <strong>{recap.matchCount}</strong>
+        </div>
+        <div className="stat">
+          <span>Minutes watched</span>
+          <strong>{recap.minutesWatched.toLocaleString("en-US")}</strong>
+        </div>
+        <div className="stat">
+          <span>Most watched team</span>
+          <strong>{recap.topTeam?.team ?? "—"}</strong>
+        </div>
+        <div className="stat">
+          <span>Top league</span>
+          <strong>{recap.topLeague?.league ?? "—"}</strong>
+        </div>
+      </div>
+
+      <div className="wrapped-highlights">
+        <MatchCard label="Biggest scoreline" match={recap.biggestScoreline} />
+        <MatchCard label="Most goals in a game" match={recap.highestScoring} />
+        <MatchCard label="First match of the year" match={recap.firstMatch} />
+        <MatchCard label="Last match of the year" match={recap.lastMatch} />
+      </div>
+
+      <div className="wrapped-months">
+        {recap.months.map((count, index) => (
+          <div key={MONTH_LABELS[index]} className="wrapped-month">
+            <div
+              className="wrapped-bar"
+              style={{ height: `${(count / busiestMonth) * 85}%` }}
+              title={`${count} match${count === 1 ? "" : "es"}`}
+            />
+            <small>{MONTH_LABELS[index]}</small>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
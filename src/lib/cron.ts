@@ -0,0 +1,9 @@
+// Scheduled jobs authenticate with `Authorization: Bearer $CRON_SECRET`,
+// which is what Vercel Cron sends.
+export function isCronRequest(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return false;
+  }
+  return request.headers.get("authorization") === `Bearer ${secret}`;
+}
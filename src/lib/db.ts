@@ -1,10 +1,17 @@
+import type { MatchStatus, TeamSummary } from "@/lib/fixtures";
 import { getPool } from "@/lib/pool";
+import { localDateSql } from "@/lib/timezone";
 
+// A manually logged entry in the viewing log, optionally linked to a
+// provider fixture
 export type MatchRecord = {
   id: number;
   userId: string;
+  eventId: string | null;
   date: string;
   time: string;
+  // Manual times are entered in the user's timezone
+  kickoffAt: string | null;
   league: string;
   homeTeam: string;
   awayTeam: string;
@@ -13,20 +20,43 @@ export type MatchRecord = {
   createdAt: string;
 };
 
+export type ViewingSource = "fixture" | "manual";
+
+export const VIEWING_MEDIUMS = ["stadium", "tv", "stream", "pub", "other"] as const;
+export type ViewingMedium = (typeof VIEWING_MEDIUMS)[number];
+
+// How the user watched a match; every field is optional and editable later
+export type ViewingContext = {
+  medium: ViewingMedium | null;
+  venue: string | null;
+  company: string | null;
+  rating: number | null;
+  notes: string | null;
+  // Attended in person; stadium/country come from the provider's venue
+  attended: boolean;
+  stadium: string | null;
+  country: string | null;
+};
+
+// One row of the viewing log: a fixture marked as watched, or a manual entry
 export type WatchedEvent = {
   id: number;
   userId: string;
-  eventId: string;
-  leagueId: string;
+  eventId: string | null;
+  leagueId: string | null;
   leagueName: string;
   date: string;
   time: string | null;
+  kickoffAt: string | null;
   homeTeam: string;
   awayTeam: string;
   homeScore: number | null;
   awayScore: number | null;
+  status: MatchStatus | null;
+  source: ViewingSource;
+  lastSyncedAt: string | null;
   createdAt: string;
-};
+} & ViewingContext;
 
 export type NotifiedEvent = {
   id: number;
@@ -36,53 +66,93 @@ export type NotifiedEvent = {
   leagueName: string;
   date: string;
   time: string;
+  kickoffAt: string | null;
   homeTeam: string;
   awayTeam: string;
   notificationId: string | null;
+  homeScore: number | null;
+  awayScore: number | null;
+  status: MatchStatus | null;
+  lastSyncedAt: string | null;
+  reminderStatus: ReminderStatus | null;
+  reminderSentAt: string | null;
+  reminderError: string | null;
   createdAt: string;
 };
 
-function formatDate(date: Date) {
-  const year = date.getFullYear();
-  const month = `${date.getMonth() + 1}`.padStart(2, "0");
-  const day = `${date.getDate()}`.padStart(2, "0");
-  return `${year}-${month}-${day}`;
+export type ReminderStatus = "sending" | "sent" | "failed" | "skipped";
+
+const MATCH_COLUMNS = `
+  id,
+  user_id as "userId",
+  event_id as "eventId",
+  date,
+  time,
+  kickoff_at as "kickoffAt",
+  league_name as league,
+  home_team as "homeTeam",
+  away_team as "awayTeam",
+  home_score as "homeScore",
+  away_score as "awayScore",
+  created_at as "createdAt"
+`;
+
+// Postgres unique_violation, e.g. linking a manual entry to a fixture that is
+// already in the user's log
+export function isUniqueViolation(error: unknown) {
+  return (error as { code?: string } | null)?.code === "23505";
+}
+
+// Deleted manual entries can be restored for this long before being purged
+export const MATCH_UNDO_WINDOW_MINUTES = 10;
+
+// A soft-deleted row still holds its (user_id, event_id) slot. Once its undo
+// window has passed it is dropped so the fixture can be linked again; until
+// then the insert that follows fails as a unique violation.
+async function clearDeletedEvent(userId: string, eventId: string | null) {
+  if (!eventId) return;
+  const pool = getPool();
+  await pool.query(
+    `
+      DELETE FROM watched_events
+      WHERE user_id = $1
+        AND event_id = $2
+        AND deleted_at < now() - make_interval(mins => $3)
+    `,
+    [userId, eventId, MATCH_UNDO_WINDOW_MINUTES]
+  );
 }
 
-function startOfWeek(date: Date) {
-  const day = date.getDay();
-  const diff = (day + 6) % 7;
-  const start = new Date(date);
-  start.setDate(date.getDate() - diff);
-  start.setHours(0, 0, 0, 0);
-  return start;
+// Deleted entries whose undo window has passed
+async function purgeExpiredMatches(userId: string) {
+  const pool = getPool();
+  await pool.query(
+    `
+      DELETE FROM watched_events
+      WHERE user_id = $1
+        AND deleted_at < now() - make_interval(mins => $2)
+    `,
+    [userId, MATCH_UNDO_WINDOW_MINUTES]
+  );
 }
 
 export async function createMatch(
   userId: string,
   input: Omit<MatchRecord, "id" | "createdAt" | "userId">
 ) {
+  await clearDeletedEvent(userId, input.eventId);
   const pool = getPool();
   const result = await pool.query(
     `
-      INSERT INTO matches
-        (user_id, date, time, league, home_team, away_team, home_score, away_score)
+      INSERT INTO watched_events
+        (user_id, event_id, date, time, league_name, home_team, away_team, home_score, away_score, kickoff_at, status, source)
       VALUES
-        ($1, $2, $3, $4, $5, $6, $7, $8)
-      RETURNING
-        id,
-        user_id as "userId",
-        date,
-        time,
-        league,
-        home_team as "homeTeam",
-        away_team as "awayTeam",
-        home_score as "homeScore",
-        away_score as "awayScore",
-        created_at as "createdAt"
+        ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'finished', 'manual')
+      RETURNING ${MATCH_COLUMNS}
     `,
     [
       userId,
+      input.eventId,
       input.date,
       input.time,
       input.league,
@@ -90,33 +160,26 @@ export async function createMatch(
       input.awayTeam,
       input.homeScore,
       input.awayScore,
+      input.kickoffAt,
     ]
   );
-  return result.rows[0];
+  return result.rows[0] as MatchRecord;
 }
 
+// Purges the user's expired deletions on the way
 export async function listMatches(userId: string) {
+  await purgeExpiredMatches(userId);
   const pool = getPool();
   const result = await pool.query(
     `
-      SELECT
-        id,
-        user_id as "userId",
-        date,
-        time,
-        league,
-        home_team as "homeTeam",
-        away_team as "awayTeam",
-        home_score as "homeScore",
-        away_score as "awayScore",
-        created_at as "createdAt"
-      FROM matches
-      WHERE user_id = $1
+      SELECT ${MATCH_COLUMNS}
+      FROM watched_events
+      WHERE user_id = $1 AND source = 'manual' AND deleted_at IS NULL
       ORDER BY date DESC, time DESC, id DESC
     `,
     [userId]
   );
-  return result.rows;
+  return result.rows as MatchRecord[];
 }
 
 export async function updateMatch(
@@ -124,32 +187,26 @@ export async function updateMatch(
   id: number,
   input: Omit<MatchRecord, "id" | "createdAt" | "userId">
 ) {
+  await clearDeletedEvent(userId, input.eventId);
   const pool = getPool();
   const result = await pool.query(
     `
-      UPDATE matches
+      UPDATE watched_events
       SET
-        date = $1,
-        time = $2,
-        league = $3,
-        home_team = $4,
-        away_team = $5,
-        home_score = $6,
-        away_score = $7
-      WHERE id = $8 AND user_id = $9
-      RETURNING
-        id,
-        user_id as "userId",
-        date,
-        time,
-        league,
-        home_team as "homeTeam",
-        away_team as "awayTeam",
-        home_score as "homeScore",
-        away_score as "awayScore",
-        created_at as "createdAt"
+        event_id = $1,
+        date = $2,
+        time = $3,
+        league_name = $4,
+        home_team = $5,
+        away_team = $6,
+        home_score = $7,
+        away_score = $8,
+        kickoff_at = $9
+      WHERE id = $10 AND user_id = $11 AND source = 'manual' AND deleted_at IS NULL
+      RETURNING ${MATCH_COLUMNS}
     `,
     [
+      input.eventId,
       input.date,
       input.time,
       input.league,
@@ -157,85 +214,233 @@ export async function updateMatch(
       input.awayTeam,
       input.homeScore,
       input.awayScore,
+      input.kickoffAt,
       id,
       userId,
     ]
   );
-  return result.rows[0] ?? null;
+  return (result.rows[0] as MatchRecord) ?? null;
+}
+
+export type MatchChanges = Partial<
+  Pick<MatchRecord, "date" | "time" | "league" | "homeTeam" | "awayTeam">
+>;
+
+// Applies the same changes to several manual entries, e.g. renaming a league.
+// A new date or time moves the kickoff, read in the user's timezone.
+export async function updateMatches(
+  userId: string,
+  ids: number[],
+  changes: MatchChanges,
+  timeZone: string
+): Promise<MatchRecord[]> {
+  if (ids.length === 0) return [];
+
+  const pool = getPool();
+  const result = await pool.query(
+    `
+      UPDATE watched_events
+      SET
+        date = COALESCE($1, date),
+        time = COALESCE($2, time),
+        league_name = COALESCE($3, league_name),
+        home_team = COALESCE($4, home_team),
+        away_team = COALESCE($5, away_team),
+        kickoff_at = CASE
+          WHEN $1::date IS NULL AND $2::text IS NULL THEN kickoff_at
+          WHEN COALESCE($2, time) ~ '^([01][0-9]|2[0-3]):[0-5][0-9]'
+          THEN (COALESCE($1::date, date) + left(COALESCE($2, time), 5)::time) AT TIME ZONE $8
+        END
+      WHERE user_id = $6 AND id = ANY($7) AND source = 'manual' AND deleted_at IS NULL
+      RETURNING ${MATCH_COLUMNS}
+    `,
+    [
+      changes.date ?? null,
+      changes.time ?? null,
+      changes.league ?? null,
+      changes.homeTeam ?? null,
+      changes.awayTeam ?? null,
+      userId,
+      ids,
+      timeZone,
+    ]
+  );
+  return result.rows as MatchRecord[];
 }
 
-export async function getStats(userId: string) {
+// Soft-deletes manual entries and returns the ids that were deleted
+export async function deleteMatches(
+  userId: string,
+  ids: number[]
+): Promise<number[]> {
+  if (ids.length === 0) return [];
+
   const pool = getPool();
-  const now = new Date();
-  const weekStart = formatDate(startOfWeek(now));
-  const monthStart = formatDate(new Date(now.getFullYear(), now.getMonth(), 1));
-  const weekResult = await pool.query(
-    `SELECT COUNT(*)::text as count FROM matches WHERE user_id = $1 AND date >= $2`,
-    [userId, weekStart]
+  const result = await pool.query(
+    `
+      UPDATE watched_events
+      SET deleted_at = now()
+      WHERE user_id = $1 AND id = ANY($2) AND source = 'manual' AND deleted_at IS NULL
+      RETURNING id
+    `,
+    [userId, ids]
   );
-  const monthResult = await pool.query(
-    `SELECT COUNT(*)::text as count FROM matches WHERE user_id = $1 AND date >= $2`,
-    [userId, monthStart]
+  return result.rows.map((row: { id: number | string }) => Number(row.id));
+}
+
+// Undoes deleteMatches for entries still inside the undo window
+export async function restoreMatches(
+  userId: string,
+  ids: number[]
+): Promise<MatchRecord[]> {
+  if (ids.length === 0) return [];
+
+  const pool = getPool();
+  const result = await pool.query(
+    `
+      UPDATE watched_events
+      SET deleted_at = NULL
+      WHERE user_id = $1
+        AND id = ANY($2)
+        AND source = 'manual'
+        AND deleted_at >= now() - make_interval(mins => $3)
+      RETURNING ${MATCH_COLUMNS}
+    `,
+    [userId, ids, MATCH_UNDO_WINDOW_MINUTES]
   );
-  const totalResult = await pool.query(
-    `SELECT COUNT(*)::text as count FROM matches WHERE user_id = $1`,
-    [userId]
+  return result.rows as MatchRecord[];
+}
+
+// Week/month/total counts over the whole viewing log, manual entries included.
+// Weeks start on Monday; both windows are computed in the user's timezone.
+export async function getViewingStats(userId: string, timeZone: string) {
+  const pool = getPool();
+  const localDate = localDateSql("$2");
+  const result = await pool.query(
+    `
+      SELECT
+        COUNT(*) FILTER (
+          WHERE ${localDate} >= date_trunc('week', now() AT TIME ZONE $2)::date
+        )::text as "weekCount",
+        COUNT(*) FILTER (
+          WHERE ${localDate} >= date_trunc('month', now() AT TIME ZONE $2)::date
+        )::text as "monthCount",
+        COUNT(*)::text as "totalCount"
+      FROM watched_events
+      WHERE user_id = $1 AND deleted_at IS NULL
+    `,
+    [userId, timeZone]
   );
+  const row = result.rows[0];
 
   return {
-    weekCount: Number(weekResult.rows[0]?.count ?? 0),
-    monthCount: Number(monthResult.rows[0]?.count ?? 0),
-    totalCount: Number(totalResult.rows[0]?.count ?? 0),
+    weekCount: Number(row?.weekCount ?? 0),
+    monthCount: Number(row?.monthCount ?? 0),
+    totalCount: Number(row?.totalCount ?? 0),
   };
 }
 
-export async function listWatchedEventIds(userId: string, date: string) {
+const WATCHED_COLUMNS = `
+  id,
+  user_id as "userId",
+  event_id as "eventId",
+  league_id as "leagueId",
+  league_name as "leagueName",
+  date,
+  time,
+  kickoff_at as "kickoffAt",
+  home_team as "homeTeam",
+  away_team as "awayTeam",
+  home_score as "homeScore",
+  away_score as "awayScore",
+  status,
+  source,
+  medium,
+  venue,
+  company,
+  rating,
+  notes,
+  attended,
+  stadium,
+  country,
+  last_synced_at as "lastSyncedAt",
+  created_at as "createdAt"
+`;
+
+// Fixtures watched on the days from `from` to `to` in the user's timezone
+export async function listWatchedEventIds(
+  userId: string,
+  from: string,
+  to: string,
+  timeZone: string
+) {
   const pool = getPool();
   const result = await pool.query(
     `
       SELECT event_id as "eventId"
       FROM watched_events
-      WHERE user_id = $1 AND date = $2
+      WHERE user_id = $1
+        AND ${localDateSql("$4")} BETWEEN $2::date AND $3::date
+        AND event_id IS NOT NULL
+        AND deleted_at IS NULL
     `,
-    [userId, date]
+    [userId, from, to, timeZone]
   );
   return result.rows.map((row: { eventId: string }) => row.eventId);
 }
 
+// Null while a deleted entry for the fixture can still be restored
 export async function addWatchedEvent(
   userId: string,
-  input: Omit<WatchedEvent, "id" | "createdAt" | "userId">
+  input: Omit<
+    WatchedEvent,
+    | "id"
+    | "createdAt"
+    | "userId"
+    | "lastSyncedAt"
+    | "source"
+    | keyof ViewingContext
+  > &
+    Partial<Pick<ViewingContext, "stadium" | "country">> & {
+      eventId: string;
+      leagueId: string;
+    }
 ) {
+  await clearDeletedEvent(userId, input.eventId);
   const pool = getPool();
   const result = await pool.query(
     `
-      INSERT INTO watched_events
-        (user_id, event_id, league_id, league_name, date, time, home_team, away_team, home_score, away_score)
-      VALUES
-        ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
-      ON CONFLICT (user_id, event_id)
-      DO UPDATE SET
-        league_id = EXCLUDED.league_id,
-        league_name = EXCLUDED.league_name,
-        date = EXCLUDED.date,
-        time = EXCLUDED.time,
-        home_team = EXCLUDED.home_team,
-        away_team = EXCLUDED.away_team,
-        home_score = EXCLUDED.home_score,
-        away_score = EXCLUDED.away_score
-      RETURNING
-        id,
-        user_id as "userId",
-        event_id as "eventId",
-        league_id as "leagueId",
-        league_name as "leagueName",
-        date,
-        time,
-        home_team as "homeTeam",
-        away_team as "awayTeam",
-        home_score as "homeScore",
-        away_score as "awayScore",
-        created_at as "createdAt"
+      WITH upserted AS (
+        INSERT INTO watched_events
+          (user_id, event_id, league_id, league_name, date, time, home_team, away_team, home_score, away_score, status, stadium, country, kickoff_at)
+        VALUES
+          ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+        ON CONFLICT (user_id, event_id)
+        DO UPDATE SET
+          stadium = COALESCE(watched_events.stadium, EXCLUDED.stadium),
+          country = COALESCE(watched_events.country, EXCLUDED.country),
+          league_id = EXCLUDED.league_id,
+          league_name = EXCLUDED.league_name,
+          date = EXCLUDED.date,
+          time = EXCLUDED.time,
+          kickoff_at = EXCLUDED.kickoff_at,
+          home_team = EXCLUDED.home_team,
+          away_team = EXCLUDED.away_team,
+          home_score = EXCLUDED.home_score,
+          away_score = EXCLUDED.away_score,
+          status = EXCLUDED.status
+        -- A manual entry linked to the fixture keeps what the user typed
+        WHERE watched_events.source = 'fixture'
+        RETURNING ${WATCHED_COLUMNS}
+      )
+      SELECT * FROM upserted
+      UNION ALL
+      SELECT ${WATCHED_COLUMNS}
+      FROM watched_events
+      WHERE user_id = $1
+        AND event_id = $2
+        AND deleted_at IS NULL
+        AND NOT EXISTS (SELECT 1 FROM upserted)
     `,
     [
       userId,
@@ -248,64 +453,199 @@ export async function addWatchedEvent(
       input.awayTeam,
       input.homeScore,
       input.awayScore,
+      input.status,
+      input.stadium ?? null,
+      input.country ?? null,
+      input.kickoffAt,
     ]
   );
-  return result.rows[0] as WatchedEvent;
+  return (result.rows[0] as WatchedEvent) ?? null;
 }
 
-export async function removeWatchedEvent(userId: string, eventId: string) {
+// Partial update of the viewing context: fields left out are kept, null
+// clears them. Works for fixture and manual entries alike.
+export async function updateWatchedContext(
+  userId: string,
+  id: number,
+  changes: Partial<ViewingContext>
+) {
   const pool = getPool();
-  await pool.query(
-    `DELETE FROM watched_events WHERE user_id = $1 AND event_id = $2`,
-    [userId, eventId]
+  const result = await pool.query(
+    `
+      UPDATE watched_events
+      SET
+        medium = CASE WHEN $3 THEN $4 ELSE medium END,
+        venue = CASE WHEN $5 THEN $6 ELSE venue END,
+        company = CASE WHEN $7 THEN $8 ELSE company END,
+        rating = CASE WHEN $9 THEN $10::smallint ELSE rating END,
+        notes = CASE WHEN $11 THEN $12 ELSE notes END,
+        attended = CASE WHEN $13 THEN $14 ELSE attended END,
+        stadium = CASE WHEN $15 THEN $16 ELSE stadium END,
+        country = CASE WHEN $17 THEN $18 ELSE country END
+      WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL
+      RETURNING ${WATCHED_COLUMNS}
+    `,
+    [
+      id,
+      userId,
+      changes.medium !== undefined,
+      changes.medium ?? null,
+      changes.venue !== undefined,
+      changes.venue ?? null,
+      changes.company !== undefined,
+      changes.company ?? null,
+      changes.rating !== undefined,
+      changes.rating ?? null,
+      changes.notes !== undefined,
+      changes.notes ?? null,
+      changes.attended !== undefined,
+      changes.attended ?? false,
+      changes.stadium !== undefined,
+      changes.stadium ?? null,
+      changes.country !== undefined,
+      changes.country ?? null,
+    ]
   );
+  return (result.rows[0] as WatchedEvent) ?? null;
 }
 
-export async function getWatchedStats(userId: string) {
+export type GroundVisit = {
+  stadium: string;
+  country: string | null;
+  visits: number;
+  firstVisit: string;
+  lastVisit: string;
+};
+
+export type CountryVisits = {
+  country: string;
+  grounds: number;
+  visits: number;
+};
+
+export type TeamAttendance = {
+  // Null for favourites the team directory doesn't know yet
+  teamId: string | null;
+  team: string;
+  home: number;
+  away: number;
+};
+
+export type GroundStats = {
+  attendedCount: number;
+  groundCount: number;
+  countryCount: number;
+  grounds: GroundVisit[];
+  countries: CountryVisits[];
+  teams: TeamAttendance[];
+};
+
+// Ground-hopping summary over matches attended in person. `teams` are the
+// user's favourite team ids, reported in the same order. Visit dates are
+// calendar days in the user's timezone.
+export async function getGroundStats(
+  userId: string,
+  teams: string[],
+  timeZone: string
+): Promise<GroundStats> {
   const pool = getPool();
-  const now = new Date();
-  const weekStart = formatDate(startOfWeek(now));
-  const monthStart = formatDate(new Date(now.getFullYear(), now.getMonth(), 1));
-  const weekResult = await pool.query(
-    `SELECT COUNT(*)::text as count FROM watched_events WHERE user_id = $1 AND date >= $2`,
-    [userId, weekStart]
-  );
-  const monthResult = await pool.query(
-    `SELECT COUNT(*)::text as count FROM watched_events WHERE user_id = $1 AND date >= $2`,
-    [userId, monthStart]
-  );
-  const totalResult = await pool.query(
-    `SELECT COUNT(*)::text as count FROM watched_events WHERE user_id = $1`,
-    [userId]
-  );
+  const localDate = localDateSql("$2");
+  const [attended, grounds, teamRows] = await Promise.all([
+    pool.query(
+      `
+        SELECT COUNT(*)::int as count
+        FROM watched_events
+        WHERE user_id = $1 AND attended AND deleted_at IS NULL
+      `,
+      [userId]
+    ),
+    pool.query(
+      `
+        SELECT
+          stadium,
+          (array_agg(country ORDER BY date DESC) FILTER (WHERE country IS NOT NULL))[1] as country,
+          COUNT(*)::int as visits,
+          to_char(MIN(${localDate}), 'YYYY-MM-DD') as "firstVisit",
+          to_char(MAX(${localDate}), 'YYYY-MM-DD') as "lastVisit"
+        FROM watched_events
+        WHERE user_id = $1 AND attended AND deleted_at IS NULL AND stadium IS NOT NULL
+        GROUP BY stadium
+        ORDER BY visits DESC, MAX(${localDate}) DESC
+      `,
+      [userId, timeZone]
+    ),
+    pool.query(
+      `
+        SELECT
+          fav.team_id as "teamId",
+          fav.team,
+          COUNT(w.id) FILTER (WHERE w.home_team = ANY(fav.names))::int as home,
+          COUNT(w.id) FILTER (WHERE w.away_team = ANY(fav.names))::int as away
+        FROM (${favoriteTeamsSql("$2")}) fav
+        LEFT JOIN watched_events w
+          ON w.user_id = $1
+          AND w.attended
+          AND w.deleted_at IS NULL
+          AND (w.home_team = ANY(fav.names) OR w.away_team = ANY(fav.names))
+        GROUP BY fav.team_id, fav.team, fav.position
+        ORDER BY fav.position
+      `,
+      [userId, teams]
+    ),
+  ]);
+
+  const groundRows = grounds.rows as GroundVisit[];
+  const countries = new Map<string, CountryVisits>();
+  groundRows.forEach((ground) => {
+    if (!ground.country) return;
+    const entry = countries.get(ground.country) ?? {
+      country: ground.country,
+      grounds: 0,
+      visits: 0,
+    };
+    entry.grounds += 1;
+    entry.visits += ground.visits;
+    countries.set(ground.country, entry);
+  });
 
   return {
-    weekCount: Number(weekResult.rows[0]?.count ?? 0),
-    monthCount: Number(monthResult.rows[0]?.count ?? 0),
-    totalCount: Number(totalResult.rows[0]?.count ?? 0),
+    attendedCount: Number(attended.rows[0]?.count ?? 0),
+    groundCount: groundRows.length,
+    countryCount: countries.size,
+    grounds: groundRows,
+    countries: Array.from(countries.values()).sort(
+      (a, b) => b.grounds - a.grounds || b.visits - a.visits
+    ),
+    teams: teamRows.rows as TeamAttendance[],
   };
 }
 
+// Fixture entries are deleted; a manual entry linked to the fixture is only
+// unlinked, so its context and attendance survive
+export async function removeWatchedEvent(userId: string, eventId: string) {
+  const pool = getPool();
+  await pool.query(
+    `
+      WITH unlinked AS (
+        UPDATE watched_events
+        SET event_id = NULL
+        WHERE user_id = $1 AND event_id = $2 AND source = 'manual' AND deleted_at IS NULL
+      )
+      DELETE FROM watched_events
+      WHERE user_id = $1 AND event_id = $2 AND source = 'fixture' AND deleted_at IS NULL
+    `,
+    [userId, eventId]
+  );
+}
+
 export async function listWatchedEvents(userId: string) {
   const pool = getPool();
   const result = await pool.query(
     `
-      SELECT
-        id,
-        user_id as "userId",
-        event_id as "eventId",
-        league_id as "leagueId",
-        league_name as "leagueName",
-        date,
-        time,
-        home_team as "homeTeam",
-        away_team as "awayTeam",
-        home_score as "homeScore",
-        away_score as "awayScore",
-        created_at as "createdAt"
+      SELECT ${WATCHED_COLUMNS}
       FROM watched_events
-      WHERE user_id = $1
-      ORDER BY date DESC, time DESC, id DESC
+      WHERE user_id = $1 AND deleted_at IS NULL
+      ORDER BY COALESCE(kickoff_at, date::timestamp AT TIME ZONE 'UTC') DESC, id DESC
     `,
     [userId]
   );
@@ -316,7 +656,15 @@ export type UserPreferences = {
   collapsedLeagues?: string[];
   hiddenLeagues?: string[];
   leagueOrder?: string[];
+  // Team ids from the directory; names saved before it existed are
+  // converted by the team sync once the team is known
   favoriteTeams?: string[];
+  // Unset means "every enabled league"
+  subscribedLeagues?: string[];
+  // Minutes before kickoff to send reminders; falls back to REMINDER_LEAD_MINUTES
+  reminderLeadMinutes?: number;
+  // IANA zone used for calendar days and stats windows; unset means UTC
+  timezone?: string;
 };
 
 export type UserPreferencesRecord = {
@@ -365,30 +713,69 @@ export async function updateUserPreferences(
   return result.rows[0] as UserPreferencesRecord;
 }
 
-export async function listNotifiedEventIds(userId: string, date: string) {
+// date stays a YYYY-MM-DD string in responses, as it was when stored as text
+const NOTIFIED_COLUMNS = `
+  id,
+  user_id as "userId",
+  event_id as "eventId",
+  league_id as "leagueId",
+  league_name as "leagueName",
+  to_char(date, 'YYYY-MM-DD') as date,
+  time,
+  kickoff_at as "kickoffAt",
+  home_team as "homeTeam",
+  away_team as "awayTeam",
+  notification_id as "notificationId",
+  home_score as "homeScore",
+  away_score as "awayScore",
+  status,
+  last_synced_at as "lastSyncedAt",
+  reminder_status as "reminderStatus",
+  reminder_sent_at as "reminderSentAt",
+  reminder_error as "reminderError",
+  created_at as "createdAt"
+`;
+
+export async function listNotifiedEventIds(
+  userId: string,
+  from: string,
+  to: string,
+  timeZone: string
+) {
   const pool = getPool();
   const result = await pool.query(
     `
       SELECT event_id as "eventId"
       FROM notified_events
-      WHERE user_id = $1 AND date = $2
+      WHERE user_id = $1 AND ${localDateSql("$4")} BETWEEN $2::date AND $3::date
     `,
-    [userId, date]
+    [userId, from, to, timeZone]
   );
   return result.rows.map((row: { eventId: string }) => row.eventId);
 }
 
 export async function addNotifiedEvent(
   userId: string,
-  input: Omit<NotifiedEvent, "id" | "createdAt" | "userId">
+  input: Pick<
+    NotifiedEvent,
+    | "eventId"
+    | "leagueId"
+    | "leagueName"
+    | "date"
+    | "time"
+    | "homeTeam"
+    | "awayTeam"
+    | "notificationId"
+    | "kickoffAt"
+  >
 ) {
   const pool = getPool();
   const result = await pool.query(
     `
       INSERT INTO notified_events
-        (user_id, event_id, league_id, league_name, date, time, home_team, away_team, notification_id)
+        (user_id, event_id, league_id, league_name, date, time, home_team, away_team, notification_id, kickoff_at)
       VALUES
-        ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
       ON CONFLICT (user_id, event_id)
       DO UPDATE SET
         league_id = EXCLUDED.league_id,
@@ -397,19 +784,15 @@ export async function addNotifiedEvent(
         time = EXCLUDED.time,
         home_team = EXCLUDED.home_team,
         away_team = EXCLUDED.away_team,
-        notification_id = EXCLUDED.notification_id
-      RETURNING
-        id,
-        user_id as "userId",
-        event_id as "eventId",
-        league_id as "leagueId",
-        league_name as "leagueName",
-        date,
-        time,
-        home_team as "homeTeam",
-        away_team as "awayTeam",
-        notification_id as "notificationId",
-        created_at as "createdAt"
+        notification_id = EXCLUDED.notification_id,
+        kickoff_at = EXCLUDED.kickoff_at,
+        -- A rescheduled kickoff needs a fresh reminder
+        reminder_status = CASE
+          WHEN notified_events.kickoff_at IS DISTINCT FROM EXCLUDED.kickoff_at
+          THEN NULL
+          ELSE notified_events.reminder_status
+        END
+      RETURNING ${NOTIFIED_COLUMNS}
     `,
     [
       userId,
@@ -421,6 +804,7 @@ export async function addNotifiedEvent(
       input.homeTeam,
       input.awayTeam,
       input.notificationId,
+      input.kickoffAt,
     ]
   );
   return result.rows[0] as NotifiedEvent;
@@ -441,18 +825,7 @@ export async function getNotifiedEvent(
   const pool = getPool();
   const result = await pool.query(
     `
-      SELECT
-        id,
-        user_id as "userId",
-        event_id as "eventId",
-        league_id as "leagueId",
-        league_name as "leagueName",
-        date,
-        time,
-        home_team as "homeTeam",
-        away_team as "awayTeam",
-        notification_id as "notificationId",
-        created_at as "createdAt"
+      SELECT ${NOTIFIED_COLUMNS}
       FROM notified_events
       WHERE user_id = $1 AND event_id = $2
     `,
@@ -465,18 +838,7 @@ export async function listNotifiedEvents(userId: string) {
   const pool = getPool();
   const result = await pool.query(
     `
-      SELECT
-        id,
-        user_id as "userId",
-        event_id as "eventId",
-        league_id as "leagueId",
-        league_name as "leagueName",
-        date,
-        time,
-        home_team as "homeTeam",
-        away_team as "awayTeam",
-        notification_id as "notificationId",
-        created_at as "createdAt"
+      SELECT ${NOTIFIED_COLUMNS}
       FROM notified_events
       WHERE user_id = $1
       ORDER BY date ASC, time ASC, id ASC
@@ -486,6 +848,33 @@ export async function listNotifiedEvents(userId: string) {
   return result.rows as NotifiedEvent[];
 }
 
+// Notified fixtures that haven't kicked off yet, picked by event id or by
+// either team's name (notified events don't store team ids)
+export async function listUpcomingNotifiedEvents(
+  userId: string,
+  eventIds: string[],
+  teamNames: string[]
+) {
+  const pool = getPool();
+  const result = await pool.query(
+    `
+      SELECT ${NOTIFIED_COLUMNS}
+      FROM notified_events
+      WHERE user_id = $1
+        AND (
+          event_id = ANY($2::text[])
+          OR lower(home_team) = ANY(ARRAY(SELECT lower(n) FROM unnest($3::text[]) n))
+          OR lower(away_team) = ANY(ARRAY(SELECT lower(n) FROM unnest($3::text[]) n))
+        )
+        AND COALESCE(kickoff_at >= now(), date >= CURRENT_DATE)
+        AND status IS DISTINCT FROM 'finished'
+      ORDER BY kickoff_at ASC NULLS LAST, date ASC, id ASC
+    `,
+    [userId, eventIds, teamNames]
+  );
+  return result.rows as NotifiedEvent[];
+}
+
 export async function listWatchedEventIdsByEventIds(
   userId: string,
   eventIds: string[]
@@ -496,12 +885,71 @@ export async function listWatchedEventIdsByEventIds(
   const result = await pool.query(
     `SELECT event_id as "eventId"
      FROM watched_events
-     WHERE user_id = $1 AND event_id = ANY($2)`,
+     WHERE user_id = $1 AND event_id = ANY($2) AND deleted_at IS NULL`,
     [userId, eventIds]
   );
   return result.rows.map((row: { eventId: string }) => row.eventId);
 }
 
+export type FixtureMatchRef = {
+  eventId: string;
+  // Calendar day in the user's zone
+  localDate: string;
+  homeTeamId: string | null;
+  homeTeam: string;
+  awayTeamId: string | null;
+  awayTeam: string;
+};
+
+// Fixtures the user logged by hand. Manual entries carry no event id, so they
+// match on the local day and on any name the team directory knows each side
+// by, the same way favourites do; $1 user, $8 league, $9 zone.
+export async function listManuallyWatchedEventIds(
+  userId: string,
+  leagueId: string,
+  fixtures: FixtureMatchRef[],
+  timeZone: string
+): Promise<string[]> {
+  if (fixtures.length === 0) return [];
+
+  const pool = getPool();
+  const result = await pool.query(
+    `
+      WITH fixtures AS (
+        SELECT
+          f.event_id,
+          f.local_date,
+          ${teamNamesSql("f.home_ref")} || lower(f.home_team) as home_names,
+          ${teamNamesSql("f.away_ref")} || lower(f.away_team) as away_names
+        FROM unnest($2::text[], $3::date[], $4::text[], $5::text[], $6::text[], $7::text[])
+          as f(event_id, local_date, home_ref, home_team, away_ref, away_team)
+      )
+      SELECT DISTINCT f.event_id as "eventId"
+      FROM fixtures f
+      JOIN watched_events w
+        ON w.user_id = $1
+        AND w.source = 'manual'
+        AND w.deleted_at IS NULL
+        AND (w.league_id IS NULL OR w.league_id = $8)
+        AND ${localDateSql("$9", "w")} = f.local_date
+        AND lower(w.home_team) = ANY(f.home_names)
+        AND lower(w.away_team) = ANY(f.away_names)
+    `,
+    [
+      userId,
+      fixtures.map((f) => f.eventId),
+      fixtures.map((f) => f.localDate),
+      fixtures.map((f) => f.homeTeamId ?? f.homeTeam),
+      fixtures.map((f) => f.homeTeam),
+      fixtures.map((f) => f.awayTeamId ?? f.awayTeam),
+      fixtures.map((f) => f.awayTeam),
+      leagueId,
+      timeZone,
+    ]
+  );
+  return result.rows.map((row: { eventId: string }) => row.eventId);
+}
+
 export async function listNotifiedEventIdsByEventIds(
   userId: string,
   eventIds: string[]
@@ -517,3 +965,860 @@ export async function listNotifiedEventIdsByEventIds(
   );
   return result.rows.map((row: { eventId: string }) => row.eventId);
 }
+
+export type LeagueRecord = {
+  id: string;
+  name: string;
+  query: string;
+  badge: string;
+  sortOrder: number;
+  enabled: boolean;
+  updatedAt: string;
+  createdAt: string;
+};
+
+export type LeagueInput = {
+  id: string;
+  name: string;
+  query: string;
+  badge: string;
+  sortOrder?: number;
+};
+
+const LEAGUE_COLUMNS = `
+  id,
+  name,
+  query,
+  badge,
+  sort_order as "sortOrder",
+  enabled,
+  updated_at as "updatedAt",
+  created_at as "createdAt"
+`;
+
+export async function listLeagues(includeDisabled = false) {
+  const pool = getPool();
+  const result = await pool.query(
+    `
+      SELECT ${LEAGUE_COLUMNS}
+      FROM leagues
+      WHERE enabled OR $1
+      ORDER BY sort_order ASC, name ASC
+    `,
+    [includeDisabled]
+  );
+  return result.rows as LeagueRecord[];
+}
+
+export async function createLeague(
+  input: LeagueInput
+): Promise<LeagueRecord | null> {
+  const pool = getPool();
+  const result = await pool.query(
+    `
+      INSERT INTO leagues (id, name, query, badge, sort_order)
+      VALUES (
+        $1, $2, $3, $4,
+        COALESCE($5, (SELECT COALESCE(MAX(sort_order), 0) + 1 FROM leagues))
+      )
+      ON CONFLICT (id) DO NOTHING
+      RETURNING ${LEAGUE_COLUMNS}
+    `,
+    [input.id, input.name, input.query, input.badge, input.sortOrder ?? null]
+  );
+  return (result.rows[0] as LeagueRecord) ?? null;
+}
+
+export async function updateLeague(
+  id: string,
+  input: Partial<Omit<LeagueInput, "id">> & { enabled?: boolean }
+): Promise<LeagueRecord | null> {
+  const pool = getPool();
+  const result = await pool.query(
+    `
+      UPDATE leagues
+      SET
+        name = COALESCE($1, name),
+        query = COALESCE($2, query),
+        badge = COALESCE($3, badge),
+        sort_order = COALESCE($4, sort_order),
+        enabled = COALESCE($5, enabled)
+      WHERE id = $6
+      RETURNING ${LEAGUE_COLUMNS}
+    `,
+    [
+      input.name ?? null,
+      input.query ?? null,
+      input.badge ?? null,
+      input.sortOrder ?? null,
+      input.enabled ?? null,
+      id,
+    ]
+  );
+  return (result.rows[0] as LeagueRecord) ?? null;
+}
+
+export type Team = {
+  id: string;
+  name: string;
+  shortName: string | null;
+  badge: string | null;
+  country: string | null;
+  aliases: string[];
+};
+
+export type TeamsByLeague = {
+  leagueId: string;
+  leagueName: string;
+  leagueBadge: string;
+  teams: Team[];
+};
+
+const TEAM_COLUMNS = `
+  t.id,
+  t.name,
+  t.short_name as "shortName",
+  t.badge,
+  t.country,
+  t.aliases
+`;
+
+// Directory id for a favourite team entry: the entry itself when it is an id,
+// else the team it names (name, short name or alias), else null
+function teamIdSql(ref: string) {
+  return `COALESCE(
+    (SELECT id FROM teams WHERE id = ${ref}),
+    (
+      SELECT m.id FROM teams m
+      WHERE lower(${ref}) IN (lower(m.name), lower(m.short_name))
+        OR lower(${ref}) = ANY(SELECT lower(alias) FROM unnest(m.aliases) alias)
+      ORDER BY lower(m.name) = lower(${ref}) DESC, m.id
+      LIMIT 1
+    )
+  )`;
+}
+
+// Lower-cased names the directory knows the team id or name `ref` by; empty
+// when it doesn't know the team
+function teamNamesSql(ref: string) {
+  return `ARRAY(
+    SELECT DISTINCT lower(n)
+    FROM teams t
+    CROSS JOIN LATERAL unnest(array_remove(ARRAY[t.name, t.short_name], NULL) || t.aliases) n
+    WHERE t.id = ${teamIdSql(ref)}
+  )`;
+}
+
+// Rows (team_id, team, names, position) for favourite teams held in a text[]
+// parameter. The viewing log stores team names, so `names` lists every name
+// the team is known by; entries the directory doesn't know match as-is.
+export function favoriteTeamsSql(param: string) {
+  return `
+    SELECT
+      t.id as team_id,
+      COALESCE(t.name, f.ref) as team,
+      CASE
+        WHEN t.id IS NULL THEN ARRAY[f.ref]
+        ELSE array_remove(ARRAY[t.name, t.short_name], NULL) || t.aliases
+      END as names,
+      f.position
+    FROM unnest(${param}::text[]) WITH ORDINALITY as f(ref, position)
+    LEFT JOIN teams t ON t.id = ${teamIdSql("f.ref")}
+  `;
+}
+
+// Teams of every enabled league, in catalog order
+export async function listTeamsByLeague(): Promise<TeamsByLeague[]> {
+  const pool = getPool();
+  const result = await pool.query(
+    `
+      SELECT
+        l.id as "leagueId",
+        l.name as "leagueName",
+        l.badge as "leagueBadge",
+        json_agg(json_build_object(
+          'id', t.id,
+          'name', t.name,
+          'shortName', t.short_name,
+          'badge', t.badge,
+          'country', t.country,
+          'aliases', t.aliases
+        ) ORDER BY t.name) as teams
+      FROM leagues l
+      JOIN team_leagues tl ON tl.league_id = l.id
+      JOIN teams t ON t.id = tl.team_id
+      WHERE l.enabled
+      GROUP BY l.id
+      ORDER BY l.sort_order ASC, l.name ASC
+    `
+  );
+  return result.rows as TeamsByLeague[];
+}
+
+export async function getTeam(id: string): Promise<Team | null> {
+  const pool = getPool();
+  const result = await pool.query(
+    `SELECT ${TEAM_COLUMNS} FROM teams t WHERE t.id = $1`,
+    [id]
+  );
+  return (result.rows[0] as Team) ?? null;
+}
+
+// Upserts the league's current teams and drops membership for teams that
+// left it (relegation); the teams themselves stay for history and other
+// competitions
+export async function replaceLeagueTeams(
+  leagueId: string,
+  teams: TeamSummary[]
+) {
+  // Providers sometimes list a team twice, which a single upsert can't take
+  const unique = Array.from(
+    new Map(teams.map((team) => [team.teamId, team])).values()
+  );
+  const pool = getPool();
+  await pool.query(
+    `
+      WITH incoming AS (
+        SELECT *
+        FROM unnest(
+          $2::text[], $3::text[], $4::text[], $5::text[], $6::text[], $7::jsonb[]
+        ) AS i(id, name, short_name, badge, country, aliases)
+      ),
+      upserted AS (
+        INSERT INTO teams (id, name, short_name, badge, country, aliases)
+        SELECT
+          id, name, short_name, badge, country,
+          ARRAY(SELECT jsonb_array_elements_text(aliases))
+        FROM incoming
+        ON CONFLICT (id)
+        DO UPDATE SET
+          name = EXCLUDED.name,
+          short_name = EXCLUDED.short_name,
+          badge = COALESCE(EXCLUDED.badge, teams.badge),
+          country = COALESCE(EXCLUDED.country, teams.country),
+          aliases = EXCLUDED.aliases,
+          synced_at = now()
+        RETURNING id
+      ),
+      joined AS (
+        INSERT INTO team_leagues (team_id, league_id)
+        SELECT id, $1 FROM upserted
+        ON CONFLICT DO NOTHING
+      )
+      DELETE FROM team_leagues
+      WHERE league_id = $1 AND NOT (team_id = ANY($2::text[]))
+    `,
+    [
+      leagueId,
+      unique.map((team) => team.teamId),
+      unique.map((team) => team.name),
+      unique.map((team) => team.shortName),
+      unique.map((team) => team.badge),
+      unique.map((team) => team.country),
+      unique.map((team) => JSON.stringify(team.aliases)),
+    ]
+  );
+}
+
+// Maps favourite team entries to directory ids, keeping entries it can't
+// match and dropping duplicates
+export async function resolveTeamIds(refs: string[]): Promise<string[]> {
+  if (refs.length === 0) return [];
+
+  const pool = getPool();
+  const result = await pool.query(
+    `
+      SELECT COALESCE(${teamIdSql("f.ref")}, f.ref) as id
+      FROM unnest($1::text[]) WITH ORDINALITY as f(ref, position)
+      ORDER BY f.position
+    `,
+    [refs]
+  );
+  return Array.from(
+    new Set(result.rows.map((row: { id: string }) => row.id))
+  );
+}
+
+// favoriteTeams used to hold team names; converts every user's entries the
+// directory now knows to ids. Returns how many users changed.
+export async function convertFavoriteTeamNames() {
+  const pool = getPool();
+  const result = await pool.query(
+    `
+      WITH entries AS (
+        SELECT
+          p.user_id,
+          COALESCE(${teamIdSql("f.ref")}, f.ref) as id,
+          f.position
+        FROM user_preferences p
+        CROSS JOIN LATERAL jsonb_array_elements_text(p.preferences->'favoriteTeams')
+          WITH ORDINALITY as f(ref, position)
+        WHERE jsonb_typeof(p.preferences->'favoriteTeams') = 'array'
+      ),
+      converted AS (
+        SELECT user_id, jsonb_agg(id ORDER BY position) as teams
+        FROM (
+          SELECT user_id, id, MIN(position) as position
+          FROM entries
+          GROUP BY user_id, id
+        ) deduped
+        GROUP BY user_id
+      )
+      UPDATE user_preferences up
+      SET
+        preferences = jsonb_set(up.preferences, '{favoriteTeams}', converted.teams),
+        updated_at = now()
+      FROM converted
+      WHERE up.user_id = converted.user_id
+        AND up.preferences->'favoriteTeams' IS DISTINCT FROM converted.teams
+    `
+  );
+  return result.rowCount ?? 0;
+}
+
+// Rows logged from a fixture (manual entries are never synced) whose score
+// or status may still change: kicked off in the last 30 days, not yet final,
+// and not synced in the last 10 minutes.
+export async function listEventIdsNeedingScoreSync(limit: number) {
+  const pool = getPool();
+  const result = await pool.query(
+    `
+      SELECT event_id as "eventId", MIN(last_synced_at) as "lastSyncedAt"
+      FROM (
+        SELECT event_id, last_synced_at
+        FROM watched_events
+        WHERE event_id IS NOT NULL
+          AND source = 'fixture'
+          AND deleted_at IS NULL
+          AND date <= current_date
+          AND date >= current_date - 30
+          AND (
+            home_score IS NULL
+            OR away_score IS NULL
+            OR status IS NULL
+            OR status NOT IN ('finished', 'postponed')
+          )
+          AND (last_synced_at IS NULL OR last_synced_at < now() - interval '10 minutes')
+        UNION ALL
+        SELECT event_id, last_synced_at
+        FROM notified_events
+        WHERE date <= current_date
+          AND date >= current_date - 30
+          AND (
+            home_score IS NULL
+            OR away_score IS NULL
+            OR status IS NULL
+            OR status NOT IN ('finished', 'postponed')
+          )
+          AND (last_synced_at IS NULL OR last_synced_at < now() - interval '10 minutes')
+      ) stale
+      GROUP BY event_id
+      ORDER BY MIN(last_synced_at) ASC NULLS FIRST
+      LIMIT $1
+    `,
+    [limit]
+  );
+  return result.rows.map((row: { eventId: string }) => row.eventId);
+}
+
+export type EventScoreUpdate = {
+  homeScore: number | null;
+  awayScore: number | null;
+  status: MatchStatus;
+  venue: string | null;
+  country: string | null;
+};
+
+// Applies a provider result to every user's copy of the event. Passing null
+// only records the attempt: a missing event is retried every 10 minutes until
+// it is 30 days past kickoff, not on every run in between.
+// Watched rows also pick up the venue if they were logged without one.
+// Manual entries keep what the user typed, even when linked to the event.
+export async function applyEventScoreSync(
+  eventId: string,
+  update: EventScoreUpdate | null
+) {
+  const pool = getPool();
+  const params = [
+    eventId,
+    update?.homeScore ?? null,
+    update?.awayScore ?? null,
+    update?.status ?? null,
+    update !== null,
+  ];
+  const watched = await pool.query(
+    `
+      UPDATE watched_events
+      SET
+        home_score = CASE WHEN $5 THEN $2 ELSE home_score END,
+        away_score = CASE WHEN $5 THEN $3 ELSE away_score END,
+        status = CASE WHEN $5 THEN $4 ELSE status END,
+        stadium = COALESCE(stadium, $6),
+        country = COALESCE(country, $7),
+        last_synced_at = now()
+      WHERE event_id = $1 AND source = 'fixture'
+    `,
+    [...params, update?.venue ?? null, update?.country ?? null]
+  );
+  const notified = await pool.query(
+    `
+      UPDATE notified_events
+      SET
+        home_score = CASE WHEN $5 THEN $2 ELSE home_score END,
+        away_score = CASE WHEN $5 THEN $3 ELSE away_score END,
+        status = CASE WHEN $5 THEN $4 ELSE status END,
+        last_synced_at = now()
+      WHERE event_id = $1
+    `,
+    params
+  );
+  return (watched.rowCount ?? 0) + (notified.rowCount ?? 0);
+}
+
+export type PushToken = {
+  id: number;
+  userId: string;
+  sessionToken: string | null;
+  token: string;
+  platform: string;
+  updatedAt: string;
+  createdAt: string;
+};
+
+export async function upsertPushToken(
+  userId: string,
+  sessionToken: string | null,
+  token: string,
+  platform: string
+) {
+  const pool = getPool();
+  const result = await pool.query(
+    `
+      INSERT INTO push_tokens (user_id, session_token, token, platform)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (token)
+      DO UPDATE SET
+        user_id = EXCLUDED.user_id,
+        session_token = EXCLUDED.session_token,
+        platform = EXCLUDED.platform
+      RETURNING
+        id,
+        user_id as "userId",
+        session_token as "sessionToken",
+        token,
+        platform,
+        updated_at as "updatedAt",
+        created_at as "createdAt"
+    `,
+    [userId, sessionToken, token, platform]
+  );
+  return result.rows[0] as PushToken;
+}
+
+export async function removePushToken(userId: string, token: string) {
+  const pool = getPool();
+  await pool.query(
+    `DELETE FROM push_tokens WHERE user_id = $1 AND token = $2`,
+    [userId, token]
+  );
+}
+
+// Used when the push service reports a token as no longer registered
+export async function removePushTokens(tokens: string[]) {
+  if (tokens.length === 0) return;
+
+  const pool = getPool();
+  await pool.query(`DELETE FROM push_tokens WHERE token = ANY($1)`, [tokens]);
+}
+
+export async function listPushTokens(userId: string): Promise<string[]> {
+  const pool = getPool();
+  const result = await pool.query(
+    `
+      SELECT token
+      FROM push_tokens
+      WHERE user_id = $1
+    `,
+    [userId]
+  );
+  return result.rows.map((row: { token: string }) => row.token);
+}
+
+export type DueReminder = {
+  id: number;
+  userId: string;
+  eventId: string;
+  homeTeam: string;
+  awayTeam: string;
+  leagueName: string;
+  kickoffAt: string;
+};
+
+// Claims older than this belong to a run that died before recording the
+// outcome; the rows are claimed again. A device may then get a notification
+// twice, which beats never getting it.
+const STALE_CLAIM_MINUTES = 10;
+
+// Not yet claimed, or claimed by a run that died; `staleParam` holds
+// STALE_CLAIM_MINUTES
+function claimableReminderSql(alias: string, staleParam: string) {
+  return `(
+    ${alias}.reminder_status IS NULL
+    OR (
+      ${alias}.reminder_status = 'sending'
+      AND (
+        ${alias}.reminder_claimed_at IS NULL
+        OR ${alias}.reminder_claimed_at < now() - interval '1 minute' * ${staleParam}
+      )
+    )
+  )`;
+}
+
+// Claims reminders whose lead time has been reached by marking them
+// "sending", so overlapping scheduler runs never deliver one twice.
+export async function claimDueReminders(
+  defaultLeadMinutes: number,
+  limit: number
+) {
+  const pool = getPool();
+  const result = await pool.query(
+    `
+      UPDATE notified_events
+      SET reminder_status = 'sending', reminder_claimed_at = now()
+      FROM (
+        SELECT ne.id, ne.kickoff_at
+        FROM notified_events ne
+        LEFT JOIN user_preferences up ON up.user_id = ne.user_id
+        WHERE ${claimableReminderSql("ne", "$3")}
+          AND ne.kickoff_at > now()
+          AND ne.kickoff_at <= now() + interval '1 minute' * (
+            CASE
+              WHEN jsonb_typeof(up.preferences->'reminderLeadMinutes') = 'number'
+              THEN (up.preferences->>'reminderLeadMinutes')::numeric
+              ELSE $1
+            END
+          )
+        ORDER BY kickoff_at ASC
+        LIMIT $2
+      ) due
+      WHERE notified_events.id = due.id
+        AND ${claimableReminderSql("notified_events", "$3")}
+      RETURNING
+        notified_events.id,
+        notified_events.user_id as "userId",
+        notified_events.event_id as "eventId",
+        notified_events.home_team as "homeTeam",
+        notified_events.away_team as "awayTeam",
+        notified_events.league_name as "leagueName",
+        due.kickoff_at as "kickoffAt"
+    `,
+    [defaultLeadMinutes, limit, STALE_CLAIM_MINUTES]
+  );
+  return result.rows as DueReminder[];
+}
+
+// Reminders whose kickoff passed before a scheduler run picked them up
+export async function skipMissedReminders() {
+  const pool = getPool();
+  await pool.query(
+    `
+      UPDATE notified_events ne
+      SET reminder_status = 'skipped', reminder_error = 'Kickoff passed before delivery'
+      WHERE ${claimableReminderSql("ne", "$1")}
+        AND ne.kickoff_at <= now()
+    `,
+    [STALE_CLAIM_MINUTES]
+  );
+}
+
+export async function recordReminderDelivery(
+  id: number,
+  status: Exclude<ReminderStatus, "sending">,
+  error: string | null
+) {
+  const pool = getPool();
+  await pool.query(
+    `
+      UPDATE notified_events
+      SET
+        reminder_status = $2,
+        reminder_sent_at = CASE WHEN $2 = 'sent' THEN now() ELSE reminder_sent_at END,
+        reminder_error = $3
+      WHERE id = $1
+    `,
+    [id, status, error]
+  );
+}
+
+export type LiveEventState = {
+  eventId: string;
+  homeScore: number | null;
+  awayScore: number | null;
+  status: MatchStatus;
+  // Goal alerts queued for the fixture so far
+  goalAlerts: number;
+};
+
+export async function getLiveEventStates(
+  eventIds: string[]
+): Promise<LiveEventState[]> {
+  if (eventIds.length === 0) return [];
+
+  const pool = getPool();
+  const result = await pool.query(
+    `
+      SELECT
+        event_id as "eventId",
+        home_score as "homeScore",
+        away_score as "awayScore",
+        status,
+        goal_alerts as "goalAlerts"
+      FROM live_event_state
+      WHERE event_id = ANY($1)
+    `,
+    [eventIds]
+  );
+  return result.rows as LiveEventState[];
+}
+
+// Fixtures the poller last saw before full time, within the given hours,
+// other than `exclude`. Matches running past UTC midnight are no longer in
+// today's list but still need polling.
+export async function listUnfinishedLiveEventIds(
+  exclude: string[],
+  withinHours: number
+): Promise<string[]> {
+  const pool = getPool();
+  const result = await pool.query(
+    `
+      SELECT event_id as "eventId"
+      FROM live_event_state
+      WHERE status IN ('scheduled', 'live', 'half_time')
+        AND updated_at > now() - interval '1 hour' * $2
+        AND NOT (event_id = ANY($1::text[]))
+    `,
+    [exclude, withinHours]
+  );
+  return result.rows.map((row: { eventId: string }) => row.eventId);
+}
+
+export async function saveLiveEventStates(states: LiveEventState[]) {
+  if (states.length === 0) return;
+
+  const pool = getPool();
+  await pool.query(
+    `
+      INSERT INTO live_event_state (event_id, home_score, away_score, status, goal_alerts)
+      SELECT * FROM unnest($1::text[], $2::int[], $3::int[], $4::text[], $5::int[])
+      ON CONFLICT (event_id)
+      DO UPDATE SET
+        home_score = EXCLUDED.home_score,
+        away_score = EXCLUDED.away_score,
+        status = EXCLUDED.status,
+        goal_alerts = EXCLUDED.goal_alerts,
+        updated_at = now()
+    `,
+    [
+      states.map((s) => s.eventId),
+      states.map((s) => s.homeScore),
+      states.map((s) => s.awayScore),
+      states.map((s) => s.status),
+      states.map((s) => s.goalAlerts),
+    ]
+  );
+}
+
+export type AlertFixture = {
+  eventId: string;
+  homeTeam: string;
+  awayTeam: string;
+  homeTeamId?: string;
+  awayTeamId?: string;
+};
+
+// Users following a fixture: they asked to be notified about it, or one of
+// the teams is in their favoriteTeams preference (by id, or by name for
+// entries the team sync hasn't converted yet).
+export async function listLiveAlertRecipients(
+  fixtures: AlertFixture[]
+): Promise<{ userId: string; eventId: string }[]> {
+  if (fixtures.length === 0) return [];
+
+  const pool = getPool();
+  const result = await pool.query(
+    `
+      SELECT ne.user_id as "userId", ne.event_id as "eventId"
+      FROM notified_events ne
+      WHERE ne.event_id = ANY($1)
+      UNION
+      SELECT up.user_id as "userId", f.event_id as "eventId"
+      FROM user_preferences up
+      JOIN unnest($1::text[], $2::text[], $3::text[], $4::text[], $5::text[])
+        AS f(event_id, home_team, away_team, home_team_id, away_team_id)
+        ON up.preferences->'favoriteTeams' ?| array_remove(
+          ARRAY[f.home_team_id, f.away_team_id, f.home_team, f.away_team],
+          NULL
+        )
+    `,
+    [
+      fixtures.map((f) => f.eventId),
+      fixtures.map((f) => f.homeTeam),
+      fixtures.map((f) => f.awayTeam),
+      fixtures.map((f) => f.homeTeamId ?? null),
+      fixtures.map((f) => f.awayTeamId ?? null),
+    ]
+  );
+  return result.rows;
+}
+
+export type OutboxNotification = {
+  userId: string;
+  eventId: string;
+  kind: string;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+  dedupeKey: string;
+};
+
+export async function enqueueNotifications(notifications: OutboxNotification[]) {
+  if (notifications.length === 0) return 0;
+
+  const pool = getPool();
+  const result = await pool.query(
+    `
+      INSERT INTO notification_outbox
+        (user_id, event_id, kind, title, body, data, dedupe_key)
+      SELECT * FROM unnest(
+        $1::text[], $2::text[], $3::text[], $4::text[], $5::text[], $6::jsonb[], $7::text[]
+      )
+      ON CONFLICT (dedupe_key) DO NOTHING
+    `,
+    [
+      notifications.map((n) => n.userId),
+      notifications.map((n) => n.eventId),
+      notifications.map((n) => n.kind),
+      notifications.map((n) => n.title),
+      notifications.map((n) => n.body),
+      notifications.map((n) => JSON.stringify(n.data)),
+      notifications.map((n) => n.dedupeKey),
+    ]
+  );
+  return result.rowCount ?? 0;
+}
+
+export type PendingNotification = Omit<OutboxNotification, "dedupeKey"> & {
+  id: number;
+};
+
+// Marks pending notifications as "sending" so concurrent dispatchers skip them
+export async function claimPendingNotifications(
+  limit: number
+): Promise<PendingNotification[]> {
+  const pool = getPool();
+  const result = await pool.query(
+    `
+      UPDATE notification_outbox
+      SET status = 'sending', claimed_at = now()
+      WHERE id IN (
+        SELECT id
+        FROM notification_outbox
+        WHERE status = 'pending'
+          OR (
+            status = 'sending'
+            AND (claimed_at IS NULL OR claimed_at < now() - interval '1 minute' * $2)
+          )
+        ORDER BY created_at ASC
+        LIMIT $1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING
+        id,
+        user_id as "userId",
+        event_id as "eventId",
+        kind,
+        title,
+        body,
+        data
+    `,
+    [limit, STALE_CLAIM_MINUTES]
+  );
+  return result.rows as PendingNotification[];
+}
+
+export async function recordNotificationDelivery(
+  id: number,
+  status: "sent" | "failed" | "skipped",
+  error: string | null
+) {
+  const pool = getPool();
+  await pool.query(
+    `
+      UPDATE notification_outbox
+      SET
+        status = $2,
+        sent_at = CASE WHEN $2 = 'sent' THEN now() ELSE sent_at END,
+        error = $3
+      WHERE id = $1
+    `,
+    [id, status, error]
+  );
+}
+
+export type WrappedShare = {
+  token: string;
+  userId: string;
+  userName: string | null;
+  year: number;
+};
+
+// Returns the existing token for this user and year, or stores `token`
+export async function createWrappedShare(
+  userId: string,
+  year: number,
+  token: string
+): Promise<string> {
+  const pool = getPool();
+  const result = await pool.query(
+    `
+      INSERT INTO wrapped_shares (token, user_id, year)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (user_id, year)
+      DO UPDATE SET year = EXCLUDED.year
+      RETURNING token
+    `,
+    [token, userId, year]
+  );
+  return result.rows[0].token as string;
+}
+
+export async function getWrappedShareToken(userId: string, year: number) {
+  const pool = getPool();
+  const result = await pool.query(
+    `SELECT token FROM wrapped_shares WHERE user_id = $1 AND year = $2`,
+    [userId, year]
+  );
+  return (result.rows[0]?.token as string | undefined) ?? null;
+}
+
+export async function getWrappedShare(token: string) {
+  const pool = getPool();
+  const result = await pool.query(
+    `
+      SELECT s.token, s.user_id as "userId", u.name as "userName", s.year
+      FROM wrapped_shares s
+      JOIN users u ON u.id = s.user_id
+      WHERE s.token = $1
+    `,
+    [token]
+  );
+  return (result.rows[0] as WrappedShare) ?? null;
+}
+
+export async function removeWrappedShare(userId: string, year: number) {
+  const pool = getPool();
+  await pool.query(
+    `DELETE FROM wrapped_shares WHERE user_id = $1 AND year = $2`,
+    [userId, year]
+  );
+}
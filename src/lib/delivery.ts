@@ -0,0 +1,40 @@
+import { listPushTokens, removePushTokens } from "@/lib/db";
+import { getPushSender, type PushMessage } from "@/lib/push";
+
+export type DeliveryOutcome = {
+  status: "sent" | "failed" | "skipped";
+  error: string | null;
+};
+
+// Sends the message to every device the user registered and prunes tokens
+// the transport reports as gone. Never throws: failures become the outcome.
+export async function deliverToUser(
+  userId: string,
+  message: Omit<PushMessage, "to">
+): Promise<DeliveryOutcome> {
+  try {
+    const tokens = await listPushTokens(userId);
+    if (tokens.length === 0) {
+      return { status: "skipped", error: "No registered devices" };
+    }
+
+    const deliveries = await getPushSender().send(
+      tokens.map((token) => ({ ...message, to: token }))
+    );
+    await removePushTokens(
+      deliveries.filter((d) => d.unregistered).map((d) => d.token)
+    );
+
+    if (deliveries.some((d) => d.ok)) {
+      return { status: "sent", error: null };
+    }
+    const error = deliveries.map((d) => d.error).filter(Boolean).join("; ");
+    return { status: "failed", error: error || "Delivery failed" };
+  } catch (error) {
+    console.error(`Push delivery to ${userId} failed:`, error);
+    return {
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
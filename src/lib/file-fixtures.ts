@@ -0,0 +1,364 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import type {
+  EventDetails,
+  FixtureProvider,
+  LeagueConfig,
+  LeagueStandings,
+  NormalizedEvent,
+  StandingRow,
+  TeamDetails,
+  TeamRef,
+  TeamSummary,
+} from "@/lib/fixtures";
+import { compareKickoff, toKickoffAt } from "@/lib/timezone";
+
+type FixtureFileEvent = Omit<
+  NormalizedEvent,
+  "leagueBadge" | "status" | "minute" | "venue" | "country" | "kickoffAt"
+> & {
+  leagueBadge?: string;
+  status?: NormalizedEvent["status"];
+  minute?: number | null;
+  venue?: string | null;
+  country?: string | null;
+  // Matchday within the season
+  round?: number;
+};
+
+type FixtureFile = {
+  events?: FixtureFileEvent[];
+  // Match detail keyed by event id, for the events that have it
+  details?: Record<
+    string,
+    Partial<Pick<EventDetails, "referee" | "timeline" | "lineups">>
+  >;
+};
+
+// Offline provider for local development: reads fixtures from a JSON file
+// (FIXTURE_FILE, defaults to fixtures/events.json) instead of the network.
+function getFixtureFilePath() {
+  return (
+    process.env.FIXTURE_FILE ??
+    path.join(process.cwd(), "fixtures", "events.json")
+  );
+}
+
+async function loadFixtureFile(): Promise<FixtureFile> {
+  const raw = await readFile(getFixtureFilePath(), "utf-8");
+  return JSON.parse(raw) as FixtureFile;
+}
+
+function toNormalizedEvent(
+  event: FixtureFileEvent,
+  leagues: LeagueConfig[]
+): NormalizedEvent {
+  const league = leagues.find((l) => l.id === event.leagueId);
+  // Picked field by field so file-only fields such as `round` stay behind
+  return {
+    eventId: event.eventId,
+    leagueId: event.leagueId,
+    leagueName: event.leagueName,
+    leagueBadge: event.leagueBadge ?? league?.badge ?? "",
+    date: event.date,
+    time: event.time,
+    kickoffAt: toKickoffAt(event.date, event.time),
+    homeTeam: event.homeTeam,
+    awayTeam: event.awayTeam,
+    homeTeamId: event.homeTeamId,
+    awayTeamId: event.awayTeamId,
+    homeScore: event.homeScore,
+    awayScore: event.awayScore,
+    status:
+      event.status ?? (event.homeScore === null ? "scheduled" : "finished"),
+    minute: event.minute ?? null,
+    venue: event.venue ?? null,
+    country: event.country ?? null,
+  };
+}
+
+async function fetchLeagueEvents(date: string, league: LeagueConfig) {
+  const data = await loadFixtureFile();
+  return (data.events ?? [])
+    .filter((event) => event.date === date && event.leagueId === league.id)
+    .map((event) => toNormalizedEvent(event, [league]));
+}
+
+async function fetchTeamMatches(teamId: string, leagues: LeagueConfig[]) {
+  const data = await loadFixtureFile();
+  const today = new Date().toISOString().split('T')[0];
+  const teamEvents = (data.events ?? [])
+    .filter((event) => event.homeTeamId === teamId || event.awayTeamId === teamId)
+    .map((event) => toNormalizedEvent(event, leagues));
+
+  const pastMatches = teamEvents
+    .filter((event) => event.date < today)
+    .sort((a, b) => compareKickoff(b, a));
+  const upcomingMatches = teamEvents
+    .filter((event) => event.date >= today)
+    .sort(compareKickoff);
+
+  return { pastMatches, upcomingMatches };
+}
+
+async function fetchEventById(eventId: string, leagues: LeagueConfig[]) {
+  const data = await loadFixtureFile();
+  const event = (data.events ?? []).find((e) => e.eventId === eventId);
+  return event ? toNormalizedEvent(event, leagues) : null;
+}
+
+async function fetchEventDetails(
+  eventId: string,
+  leagues: LeagueConfig[]
+): Promise<EventDetails | null> {
+  const data = await loadFixtureFile();
+  const event = (data.events ?? []).find((e) => e.eventId === eventId);
+  if (!event) {
+    return null;
+  }
+  const details = data.details?.[eventId];
+  return {
+    ...toNormalizedEvent(event, leagues),
+    referee: details?.referee ?? null,
+    timeline: details?.timeline ?? [],
+    lineups: details?.lineups ?? null,
+  };
+}
+
+function matchesQuery(value: string, query: string) {
+  return value.toLowerCase().includes(query.trim().toLowerCase());
+}
+
+// The file has no team list, so teams come from the fixtures they play in
+async function listFileTeams(filter: (event: FixtureFileEvent) => boolean) {
+  const data = await loadFixtureFile();
+  const teams = new Map<string, TeamSummary>();
+  for (const event of (data.events ?? []).filter(filter)) {
+    const sides = [
+      { teamId: event.homeTeamId, name: event.homeTeam },
+      { teamId: event.awayTeamId, name: event.awayTeam },
+    ];
+    for (const { teamId, name } of sides) {
+      if (!teamId || teams.has(teamId)) continue;
+      teams.set(teamId, {
+        teamId,
+        name,
+        shortName: null,
+        leagueId: event.leagueId,
+        leagueName: event.leagueName,
+        badge: null,
+        country: event.country ?? null,
+        aliases: [],
+      });
+    }
+  }
+  return Array.from(teams.values());
+}
+
+// The stadium is taken from the team's latest home fixture with a venue
+async function fetchTeam(teamId: string): Promise<TeamDetails | null> {
+  const teams = await listFileTeams(
+    (event) => event.homeTeamId === teamId || event.awayTeamId === teamId
+  );
+  const team = teams.find((entry) => entry.teamId === teamId);
+  if (!team) {
+    return null;
+  }
+  const data = await loadFixtureFile();
+  const home = (data.events ?? [])
+    .filter((event) => event.homeTeamId === teamId && event.venue)
+    .sort((a, b) => compareKickoff(b, a));
+  return {
+    ...team,
+    stadium: home[0]?.venue ?? null,
+    stadiumCapacity: null,
+    founded: null,
+  };
+}
+
+async function searchTeams(query: string) {
+  const teams = await listFileTeams(() => true);
+  return teams.filter((team) => matchesQuery(team.name, query));
+}
+
+async function fetchLeagueTeams(league: LeagueConfig) {
+  return listFileTeams((event) => event.leagueId === league.id);
+}
+
+async function searchEvents(query: string, leagues: LeagueConfig[]) {
+  const data = await loadFixtureFile();
+  return (data.events ?? [])
+    .filter((event) =>
+      matchesQuery(`${event.homeTeam} vs ${event.awayTeam}`, query)
+    )
+    .map((event) => toNormalizedEvent(event, leagues));
+}
+
+async function fetchHeadToHead(
+  home: TeamRef,
+  away: TeamRef,
+  leagues: LeagueConfig[]
+) {
+  const data = await loadFixtureFile();
+  const ids = [home.teamId, away.teamId];
+  return (data.events ?? [])
+    .filter(
+      (event) =>
+        event.homeTeamId !== event.awayTeamId &&
+        ids.includes(event.homeTeamId ?? "") &&
+        ids.includes(event.awayTeamId ?? "")
+    )
+    .map((event) => toNormalizedEvent(event, leagues));
+}
+
+const FORM_LENGTH = 5;
+
+// "2024-2025" runs July to June; a single year is a calendar season
+function seasonBounds(season: string) {
+  const [start, end] = season.split("-");
+  return end
+    ? { from: `${start}-07-01`, to: `${end}-06-30` }
+    : { from: `${start}-01-01`, to: `${start}-12-31` };
+}
+
+function seasonOf(date: string) {
+  const year = Number(date.slice(0, 4));
+  return date.slice(5) >= "07-01" ? `${year}-${year + 1}` : `${year - 1}-${year}`;
+}
+
+// Seasons the league has fixtures in, split July to June
+async function fetchSeasons(league: LeagueConfig) {
+  const data = await loadFixtureFile();
+  const seasons = new Set(
+    (data.events ?? [])
+      .filter((event) => event.leagueId === league.id)
+      .map((event) => seasonOf(event.date))
+  );
+  return Array.from(seasons).sort((a, b) => b.localeCompare(a));
+}
+
+async function fetchSeasonEvents(league: LeagueConfig, season: string) {
+  const data = await loadFixtureFile();
+  const { from, to } = seasonBounds(season);
+  return (data.events ?? [])
+    .filter(
+      (event) =>
+        event.leagueId === league.id && from <= event.date && event.date <= to
+    )
+    .map((event) => toNormalizedEvent(event, [league]))
+    .sort(compareKickoff);
+}
+
+// Only fixtures with a `round` in the file can be browsed by round
+async function fetchRoundEvents(
+  league: LeagueConfig,
+  season: string,
+  round: number
+) {
+  const data = await loadFixtureFile();
+  const { from, to } = seasonBounds(season);
+  return (data.events ?? [])
+    .filter(
+      (event) =>
+        event.leagueId === league.id &&
+        event.round === round &&
+        from <= event.date &&
+        event.date <= to
+    )
+    .map((event) => toNormalizedEvent(event, [league]))
+    .sort(compareKickoff);
+}
+
+// Built from the finished fixtures in the file: 3 points a win, 1 a draw
+async function fetchStandings(
+  league: LeagueConfig,
+  season: string
+): Promise<LeagueStandings> {
+  const data = await loadFixtureFile();
+  const { from, to } = seasonBounds(season);
+  const results = (data.events ?? [])
+    .map((event) => toNormalizedEvent(event, [league]))
+    .filter(
+      (event) =>
+        event.leagueId === league.id &&
+        event.status === "finished" &&
+        event.homeScore !== null &&
+        event.awayScore !== null &&
+        from <= event.date &&
+        event.date <= to
+    )
+    .sort(compareKickoff);
+
+  const table = new Map<string, StandingRow>();
+  const entry = (teamId: string, teamName: string) => {
+    const row = table.get(teamId) ?? {
+      position: 0,
+      teamId,
+      teamName,
+      badge: null,
+      played: 0,
+      won: 0,
+      drawn: 0,
+      lost: 0,
+      goalsFor: 0,
+      goalsAgainst: 0,
+      goalDifference: 0,
+      points: 0,
+      form: "",
+      description: null,
+    };
+    table.set(teamId, row);
+    return row;
+  };
+  for (const event of results) {
+    const homeGoals = event.homeScore as number;
+    const awayGoals = event.awayScore as number;
+    const sides = [
+      { id: event.homeTeamId, name: event.homeTeam, goals: homeGoals, conceded: awayGoals },
+      { id: event.awayTeamId, name: event.awayTeam, goals: awayGoals, conceded: homeGoals },
+    ];
+    for (const side of sides) {
+      if (!side.id) continue;
+      const row = entry(side.id, side.name);
+      const result =
+        side.goals > side.conceded ? "W" : side.goals < side.conceded ? "L" : "D";
+      row.played += 1;
+      row.won += result === "W" ? 1 : 0;
+      row.drawn += result === "D" ? 1 : 0;
+      row.lost += result === "L" ? 1 : 0;
+      row.goalsFor += side.goals;
+      row.goalsAgainst += side.conceded;
+      row.goalDifference = row.goalsFor - row.goalsAgainst;
+      row.points = row.won * 3 + row.drawn;
+      row.form = `${row.form ?? ""}${result}`.slice(-FORM_LENGTH);
+    }
+  }
+
+  const rows = Array.from(table.values())
+    .sort(
+      (a, b) =>
+        b.points - a.points ||
+        b.goalDifference - a.goalDifference ||
+        b.goalsFor - a.goalsFor ||
+        a.teamName.localeCompare(b.teamName)
+    )
+    .map((row, index) => ({ ...row, position: index + 1 }));
+  return { leagueId: league.id, season, rows };
+}
+
+export const fileFixtureProvider: FixtureProvider = {
+  id: "file",
+  fetchLeagueEvents,
+  fetchTeamMatches,
+  fetchEventById,
+  fetchEventDetails,
+  fetchTeam,
+  searchTeams,
+  searchEvents,
+  fetchLeagueTeams,
+  fetchHeadToHead,
+  fetchStandings,
+  fetchSeasons,
+  fetchSeasonEvents,
+  fetchRoundEvents,
+};
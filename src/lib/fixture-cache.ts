@@ -0,0 +1,119 @@
+import { getPool } from "@/lib/pool";
+
+type CacheEntry<T> = {
+  payload: T;
+  expiresAt: Date;
+};
+
+// How long one instance may refresh an expired entry before another takes over
+const REFRESH_LEASE_MS = 30 * 1000;
+
+// Concurrent misses within this instance share a single upstream request
+const inflight = new Map<string, Promise<unknown>>();
+
+async function readEntry<T>(
+  provider: string,
+  key: string
+): Promise<CacheEntry<T> | null> {
+  const pool = getPool();
+  const result = await pool.query(
+    `
+      SELECT payload, expires_at as "expiresAt"
+      FROM fixture_cache
+      WHERE provider = $1 AND cache_key = $2
+    `,
+    [provider, key]
+  );
+  return (result.rows[0] as CacheEntry<T>) ?? null;
+}
+
+async function writeEntry(
+  provider: string,
+  key: string,
+  payload: unknown,
+  ttlMs: number
+) {
+  const pool = getPool();
+  await pool.query(
+    `
+      INSERT INTO fixture_cache
+        (provider, cache_key, payload, fetched_at, expires_at, refreshing_until)
+      VALUES
+        ($1, $2, $3, now(), now() + $4 * interval '1 millisecond', NULL)
+      ON CONFLICT (provider, cache_key)
+      DO UPDATE SET
+        payload = EXCLUDED.payload,
+        fetched_at = EXCLUDED.fetched_at,
+        expires_at = EXCLUDED.expires_at,
+        refreshing_until = NULL
+    `,
+    [provider, key, JSON.stringify(payload), ttlMs]
+  );
+}
+
+// Takes a short lease on an expired entry so only one instance refreshes it.
+// A failed refresh keeps the lease until it lapses, which doubles as backoff.
+async function claimRefresh(provider: string, key: string) {
+  const pool = getPool();
+  const result = await pool.query(
+    `
+      UPDATE fixture_cache
+      SET refreshing_until = now() + $3 * interval '1 millisecond'
+      WHERE provider = $1
+        AND cache_key = $2
+        AND (refreshing_until IS NULL OR refreshing_until < now())
+      RETURNING cache_key
+    `,
+    [provider, key, REFRESH_LEASE_MS]
+  );
+  return result.rows.length > 0;
+}
+
+// Returns a cached provider response, loading it when missing or expired.
+// Expired data is served while another instance refreshes it, and when the
+// upstream fails. `ttlMs` may depend on the loaded data.
+export async function withFixtureCache<T>(
+  provider: string,
+  key: string,
+  ttlMs: number | ((data: T) => number),
+  load: () => Promise<T>
+): Promise<T> {
+  const entry = await readEntry<T>(provider, key);
+  if (entry && new Date(entry.expiresAt).getTime() > Date.now()) {
+    return entry.payload;
+  }
+
+  const inflightKey = `${provider}:${key}`;
+  const pending = inflight.get(inflightKey);
+  if (pending) {
+    return pending as Promise<T>;
+  }
+
+  if (entry && !(await claimRefresh(provider, key))) {
+    return entry.payload;
+  }
+
+  const request = (async () => {
+    try {
+      const data = await load();
+      await writeEntry(
+        provider,
+        key,
+        data,
+        typeof ttlMs === "function" ? ttlMs(data) : ttlMs
+      );
+      return data;
+    } catch (error) {
+      if (entry) {
+        console.error(`Serving stale fixtures for ${inflightKey}:`, error);
+        return entry.payload;
+      }
+      throw error;
+    } finally {
+      inflight.delete(inflightKey);
+    }
+  })();
+
+  inflight.set(inflightKey, request);
+  return request;
+}
@@ -0,0 +1,415 @@
+import { listLeagues } from "@/lib/db";
+import { fileFixtureProvider } from "@/lib/file-fixtures";
+import { withFixtureCache } from "@/lib/fixture-cache";
+import { withRetry } from "@/lib/retry";
+import { sportsDbProvider } from "@/lib/sportsdb";
+import {
+  localDateOf,
+  toKickoffAt,
+  utcDatesForLocalRange,
+} from "@/lib/timezone";
+
+export type LeagueConfig = {
+  id: string;
+  name: string;
+  query: string;
+  badge: string;
+};
+
+// "postponed" also covers cancelled, abandoned and suspended fixtures
+export type MatchStatus =
+  | "scheduled"
+  | "live"
+  | "half_time"
+  | "finished"
+  | "postponed";
+
+export const MATCH_STATUSES: MatchStatus[] = [
+  "scheduled",
+  "live",
+  "half_time",
+  "finished",
+  "postponed",
+];
+
+export type NormalizedEvent = {
+  eventId: string;
+  leagueId: string;
+  leagueName: string;
+  leagueBadge: string;
+  // Provider date and time, in UTC
+  date: string;
+  time: string;
+  // ISO instant of kickoff; null when the time isn't known yet
+  kickoffAt: string | null;
+  homeTeam: string;
+  awayTeam: string;
+  homeTeamId?: string;
+  awayTeamId?: string;
+  homeScore: number | null;
+  awayScore: number | null;
+  status: MatchStatus;
+  // Elapsed minutes while in play, when the provider reports them
+  minute: number | null;
+  // Stadium and its country, when the provider reports them
+  venue: string | null;
+  country: string | null;
+};
+
+export type TimelineEntry = {
+  kind: "goal" | "card" | "substitution";
+  // Minute of play; null when the provider didn't record one
+  minute: number | null;
+  side: "home" | "away";
+  player: string;
+  // Goal type ("Penalty", "Own Goal") or card colour
+  detail: string | null;
+  // Assist for goals, the other player in a substitution
+  relatedPlayer: string | null;
+};
+
+export type LineupPlayer = {
+  name: string;
+  number: number | null;
+  position: string | null;
+  substitute: boolean;
+};
+
+// Everything the provider knows about one match. Timelines and lineups are
+// often missing for lower leagues and older matches.
+export type EventDetails = NormalizedEvent & {
+  referee: string | null;
+  timeline: TimelineEntry[];
+  lineups: { home: LineupPlayer[]; away: LineupPlayer[] } | null;
+};
+
+export type LeagueFailure = {
+  leagueId: string;
+  error: string;
+};
+
+export type DayFixtures = {
+  events: NormalizedEvent[];
+  failedLeagues: LeagueFailure[];
+};
+
+export type TeamMatches = {
+  pastMatches: NormalizedEvent[];
+  upcomingMatches: NormalizedEvent[];
+};
+
+export type TeamSummary = {
+  teamId: string;
+  name: string;
+  shortName: string | null;
+  leagueId: string | null;
+  leagueName: string | null;
+  badge: string | null;
+  country: string | null;
+  // Other names the provider knows the team by
+  aliases: string[];
+};
+
+export type StandingRow = {
+  position: number;
+  teamId: string;
+  teamName: string;
+  badge: string | null;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalDifference: number;
+  points: number;
+  // Latest results as W/D/L letters, oldest first
+  form: string | null;
+  // Qualification or relegation zone, when the provider names one
+  description: string | null;
+};
+
+export type LeagueStandings = {
+  leagueId: string;
+  season: string;
+  rows: StandingRow[];
+};
+
+export type TeamRef = {
+  teamId: string;
+  name: string;
+};
+
+export type TeamDetails = TeamSummary & {
+  stadium: string | null;
+  stadiumCapacity: number | null;
+  founded: number | null;
+};
+
+// A source of fixtures. Every provider returns NormalizedEvents so routes
+// never need to know which upstream the data came from.
+export type FixtureProvider = {
+  id: string;
+  fetchLeagueEvents(date: string, league: LeagueConfig): Promise<NormalizedEvent[]>;
+  fetchTeamMatches(teamId: string, leagues: LeagueConfig[]): Promise<TeamMatches>;
+  fetchEventById(eventId: string, leagues: LeagueConfig[]): Promise<NormalizedEvent | null>;
+  fetchEventDetails(eventId: string, leagues: LeagueConfig[]): Promise<EventDetails | null>;
+  fetchTeam(teamId: string): Promise<TeamDetails | null>;
+  // Football teams whose name matches the query
+  searchTeams(query: string): Promise<TeamSummary[]>;
+  // Every team currently playing in the league
+  fetchLeagueTeams(league: LeagueConfig): Promise<TeamSummary[]>;
+  // Seasons the provider has for the league, newest first
+  fetchSeasons(league: LeagueConfig): Promise<string[]>;
+  // Every fixture of a season, played or not
+  fetchSeasonEvents(league: LeagueConfig, season: string): Promise<NormalizedEvent[]>;
+  // Fixtures of one matchday (round) of a season
+  fetchRoundEvents(league: LeagueConfig, season: string, round: number): Promise<NormalizedEvent[]>;
+  // League table for a season such as "2024-2025"
+  fetchStandings(league: LeagueConfig, season: string): Promise<LeagueStandings>;
+  // Every meeting between the two teams the provider knows, either way round
+  fetchHeadToHead(home: TeamRef, away: TeamRef, leagues: LeagueConfig[]): Promise<NormalizedEvent[]>;
+  // Fixtures whose "Home vs Away" name matches the query, past or upcoming
+  searchEvents(query: string, leagues: LeagueConfig[]): Promise<NormalizedEvent[]>;
+};
+
+const PROVIDERS: Record<string, FixtureProvider> = {
+  [sportsDbProvider.id]: sportsDbProvider,
+  [fileFixtureProvider.id]: fileFixtureProvider,
+};
+
+// Selected with FIXTURE_PROVIDER; defaults to TheSportsDB
+export function getFixtureProvider(): FixtureProvider {
+  const name = process.env.FIXTURE_PROVIDER ?? sportsDbProvider.id;
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    throw new Error(`Unknown FIXTURE_PROVIDER: ${name}`);
+  }
+  return provider;
+}
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const LIVE_CACHE_TTL_MS = 30 * 1000;
+// Finished matches rarely change beyond late stat corrections
+const FINISHED_CACHE_TTL_MS = 60 * 60 * 1000;
+
+function fetchCachedLeagueEvents(
+  provider: FixtureProvider,
+  date: string,
+  league: LeagueConfig,
+  ttl: number
+) {
+  return withFixtureCache(provider.id, `league:${league.id}:${date}`, ttl, () =>
+    withRetry(() => provider.fetchLeagueEvents(date, league))
+  );
+}
+
+// Fetches the given leagues for a date, or every enabled league when omitted.
+// A league that keeps failing is reported in failedLeagues instead of failing
+// the whole day.
+export async function fetchEventsByDate(
+  date: string,
+  leagues?: LeagueConfig[]
+): Promise<DayFixtures> {
+  const provider = getFixtureProvider();
+
+  // For today's date, use shorter cache (30 seconds) for live scores
+  const today = new Date().toISOString().split('T')[0];
+  const isToday = date === today;
+  const ttl = isToday ? LIVE_CACHE_TTL_MS : CACHE_TTL_MS;
+
+  const targetLeagues = leagues ?? (await listLeagues());
+  const results = await Promise.allSettled(
+    targetLeagues.map((league) =>
+      fetchCachedLeagueEvents(provider, date, league, ttl)
+    )
+  );
+
+  const events: NormalizedEvent[] = [];
+  const failedLeagues: LeagueFailure[] = [];
+  results.forEach((result, index) => {
+    if (result.status === "fulfilled") {
+      events.push(...result.value);
+      return;
+    }
+    const leagueId = targetLeagues[index].id;
+    console.error(`Failed to fetch league ${leagueId} for ${date}:`, result.reason);
+    failedLeagues.push({
+      leagueId,
+      error:
+        result.reason instanceof Error
+          ? result.reason.message
+          : String(result.reason),
+    });
+  });
+
+  return { events, failedLeagues };
+}
+
+// Calendar day the event falls on in the zone; events without a kickoff
+// time keep the provider date
+export function eventLocalDate(event: NormalizedEvent, timeZone: string) {
+  // Cache entries written before kickoffAt existed don't carry it
+  const kickoffAt = event.kickoffAt ?? toKickoffAt(event.date, event.time);
+  return kickoffAt ? localDateOf(kickoffAt, timeZone) : event.date;
+}
+
+// Calendar days in the user's zone overlap one more provider (UTC) day at
+// either end: fetch each UTC day once and keep the events that kick off
+// within the requested local days.
+export async function fetchEventsForLocalRange(
+  from: string,
+  to: string,
+  timeZone: string,
+  leagues?: LeagueConfig[]
+): Promise<DayFixtures> {
+  const targetLeagues = leagues ?? (await listLeagues());
+  const days = await Promise.all(
+    utcDatesForLocalRange(from, to, timeZone).map((utcDate) =>
+      fetchEventsByDate(utcDate, targetLeagues)
+    )
+  );
+
+  const events = days
+    .flatMap((day) => day.events)
+    .filter((event) => {
+      const date = eventLocalDate(event, timeZone);
+      return from <= date && date <= to;
+    });
+
+  const failedLeagues = new Map<string, LeagueFailure>();
+  days.forEach((day) =>
+    day.failedLeagues.forEach((failure) =>
+      failedLeagues.set(failure.leagueId, failure)
+    )
+  );
+
+  return { events, failedLeagues: Array.from(failedLeagues.values()) };
+}
+
+export async function fetchTeamMatches(teamId: string) {
+  const provider = getFixtureProvider();
+  return withFixtureCache(provider.id, `team:${teamId}`, CACHE_TTL_MS, async () => {
+    const leagues = await listLeagues(true);
+    if (leagues.length === 0) {
+      throw new Error("No leagues configured.");
+    }
+    return provider.fetchTeamMatches(teamId, leagues);
+  });
+}
+
+export async function fetchEventById(eventId: string) {
+  const provider = getFixtureProvider();
+  return withFixtureCache(provider.id, `event:${eventId}`, LIVE_CACHE_TTL_MS, async () => {
+    const leagues = await listLeagues(true);
+    return withRetry(() => provider.fetchEventById(eventId, leagues));
+  });
+}
+
+// Live TTL until full time so in-play timelines stay fresh
+function eventDetailsTtl(details: EventDetails | null) {
+  return details?.status === "finished" ? FINISHED_CACHE_TTL_MS : LIVE_CACHE_TTL_MS;
+}
+
+export async function fetchEventDetails(eventId: string) {
+  const provider = getFixtureProvider();
+  return withFixtureCache(provider.id, `event-details:${eventId}`, eventDetailsTtl, async () => {
+    const leagues = await listLeagues(true);
+    return withRetry(() => provider.fetchEventDetails(eventId, leagues));
+  });
+}
+
+// Cached separately from the team's matches, which change more often
+export async function fetchTeam(teamId: string) {
+  const provider = getFixtureProvider();
+  return withFixtureCache(provider.id, `team-details:${teamId}`, CACHE_TTL_MS, () =>
+    withRetry(() => provider.fetchTeam(teamId))
+  );
+}
+
+// Seasons run August to May in most leagues the app covers; July counts
+// towards the season that is about to start
+export function currentSeason(now = new Date()) {
+  const year = now.getUTCFullYear();
+  return now.getUTCMonth() >= 6 ? `${year}-${year + 1}` : `${year - 1}-${year}`;
+}
+
+export async function fetchSeasons(league: LeagueConfig) {
+  const provider = getFixtureProvider();
+  return withFixtureCache(provider.id, `seasons:${league.id}`, CACHE_TTL_MS, () =>
+    withRetry(() => provider.fetchSeasons(league))
+  );
+}
+
+export async function fetchRoundEvents(
+  league: LeagueConfig,
+  season: string,
+  round: number
+) {
+  const provider = getFixtureProvider();
+  return withFixtureCache(
+    provider.id,
+    `round:${league.id}:${season}:${round}`,
+    CACHE_TTL_MS,
+    () => withRetry(() => provider.fetchRoundEvents(league, season, round))
+  );
+}
+
+export async function fetchSeasonEvents(league: LeagueConfig, season: string) {
+  const provider = getFixtureProvider();
+  return withFixtureCache(
+    provider.id,
+    `season:${league.id}:${season}`,
+    CACHE_TTL_MS,
+    () => withRetry(() => provider.fetchSeasonEvents(league, season))
+  );
+}
+
+// "2024-2025", or a single year for leagues played within one
+export function isValidSeason(value: string) {
+  const match = /^(\d{4})(?:-(\d{4}))?$/.exec(value);
+  return (
+    match !== null &&
+    (match[2] === undefined || Number(match[2]) === Number(match[1]) + 1)
+  );
+}
+
+// Tables only change when a match finishes, so they share the regular TTL
+export async function fetchStandings(league: LeagueConfig, season: string) {
+  const provider = getFixtureProvider();
+  return withFixtureCache(
+    provider.id,
+    `standings:${league.id}:${season}`,
+    CACHE_TTL_MS,
+    () => withRetry(() => provider.fetchStandings(league, season))
+  );
+}
+
+// Keyed on the pair, so both orders share an entry
+export async function fetchHeadToHead(home: TeamRef, away: TeamRef) {
+  const provider = getFixtureProvider();
+  const key = `h2h:${[home.teamId, away.teamId].sort().join(":")}`;
+  return withFixtureCache(provider.id, key, CACHE_TTL_MS, async () => {
+    const leagues = await listLeagues(true);
+    return withRetry(() => provider.fetchHeadToHead(home, away, leagues));
+  });
+}
+
+// Uncached: only the team sync job calls it
+export async function fetchLeagueTeams(league: LeagueConfig) {
+  const provider = getFixtureProvider();
+  return withRetry(() => provider.fetchLeagueTeams(league));
+}
+
+// Not kept in fixture_cache: every distinct query would add a row. The
+// provider's fetch revalidation caches repeated searches instead.
+export async function searchTeams(query: string) {
+  const provider = getFixtureProvider();
+  return withRetry(() => provider.searchTeams(query));
+}
+
+export async function searchEvents(query: string) {
+  const provider = getFixtureProvider();
+  const leagues = await listLeagues(true);
+  return withRetry(() => provider.searchEvents(query, leagues));
+}
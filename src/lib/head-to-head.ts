@@ -0,0 +1,113 @@
+import { getTeam, listWatchedEventIdsByEventIds } from "@/lib/db";
+import {
+  fetchHeadToHead,
+  fetchTeam,
+  type NormalizedEvent,
+  type TeamRef,
+} from "@/lib/fixtures";
+import { compareKickoff } from "@/lib/timezone";
+
+export type HeadToHeadTeam = TeamRef & { badge: string | null };
+
+export type HeadToHeadMeeting = NormalizedEvent & {
+  // The user has this meeting in their viewing log
+  watched: boolean;
+};
+
+// Counted from the side of the team asked for as `home`, wherever the
+// meetings were played
+export type HeadToHeadRecord = {
+  played: number;
+  homeWins: number;
+  awayWins: number;
+  draws: number;
+  homeGoals: number;
+  awayGoals: number;
+};
+
+export type HeadToHead = {
+  home: HeadToHeadTeam;
+  away: HeadToHeadTeam;
+  record: HeadToHeadRecord;
+  // Finished meetings with a score, newest first
+  meetings: HeadToHeadMeeting[];
+  watchedCount: number;
+};
+
+// Directory first; teams it doesn't have yet are looked up at the provider
+async function resolveTeam(teamId: string): Promise<HeadToHeadTeam | null> {
+  const stored = await getTeam(teamId);
+  if (stored) {
+    return { teamId, name: stored.name, badge: stored.badge };
+  }
+  const details = await fetchTeam(teamId);
+  return details ? { teamId, name: details.name, badge: details.badge } : null;
+}
+
+function isHomeSide(event: NormalizedEvent, team: HeadToHeadTeam) {
+  return event.homeTeamId
+    ? event.homeTeamId === team.teamId
+    : event.homeTeam === team.name;
+}
+
+// Null when either team is unknown
+export async function getHeadToHead(
+  userId: string,
+  homeId: string,
+  awayId: string
+): Promise<HeadToHead | null> {
+  const [home, away] = await Promise.all([
+    resolveTeam(homeId),
+    resolveTeam(awayId),
+  ]);
+  if (!home || !away) {
+    return null;
+  }
+
+  const finished = (await fetchHeadToHead(home, away))
+    .filter(
+      (event) =>
+        event.status === "finished" &&
+        event.homeScore !== null &&
+        event.awayScore !== null
+    )
+    .sort((a, b) => compareKickoff(b, a));
+  const watchedIds = new Set(
+    await listWatchedEventIdsByEventIds(
+      userId,
+      finished.map((event) => event.eventId)
+    )
+  );
+
+  const record: HeadToHeadRecord = {
+    played: finished.length,
+    homeWins: 0,
+    awayWins: 0,
+    draws: 0,
+    homeGoals: 0,
+    awayGoals: 0,
+  };
+  for (const event of finished) {
+    const [ours, theirs] = isHomeSide(event, home)
+      ? [event.homeScore as number, event.awayScore as number]
+      : [event.awayScore as number, event.homeScore as number];
+    record.homeGoals += ours;
+    record.awayGoals += theirs;
+    if (ours > theirs) record.homeWins += 1;
+    else if (ours < theirs) record.awayWins += 1;
+    else record.draws += 1;
+  }
+
+  const meetings = finished.map((event) => ({
+    ...event,
+    watched: watchedIds.has(event.eventId),
+  }));
+
+  return {
+    home,
+    away,
+    record,
+    meetings,
+    watchedCount: meetings.filter((meeting) => meeting.watched).length,
+  };
+}
@@ -0,0 +1,46 @@
+import { getUserPreferences, listLeagues } from "@/lib/db";
+import type { LeagueRecord, UserPreferences } from "@/lib/db";
+
+export function isSubscribed(league: LeagueRecord, preferences: UserPreferences) {
+  return (
+    !preferences.subscribedLeagues ||
+    preferences.subscribedLeagues.includes(league.id)
+  );
+}
+
+// Applies a user's subscriptions, hidden leagues and league order to the
+// catalog. Leagues missing from the order keep their catalog position after
+// the ordered ones.
+export function resolveUserLeagues(
+  catalog: LeagueRecord[],
+  preferences: UserPreferences,
+  leagueOrder = preferences.leagueOrder
+) {
+  const hidden = new Set(preferences.hiddenLeagues ?? []);
+  const visible = catalog.filter(
+    (league) => isSubscribed(league, preferences) && !hidden.has(league.id)
+  );
+
+  if (!leagueOrder || leagueOrder.length === 0) {
+    return visible;
+  }
+
+  const rank = (league: LeagueRecord) => {
+    const index = leagueOrder.indexOf(league.id);
+    return index === -1 ? leagueOrder.length : index;
+  };
+  // Array.prototype.sort is stable, so unranked leagues keep catalog order
+  return [...visible].sort((a, b) => rank(a) - rank(b));
+}
+
+export async function getUserLeagues(userId: string, leagueOrder?: string[]) {
+  const [catalog, preferences] = await Promise.all([
+    listLeagues(),
+    getUserPreferences(userId),
+  ]);
+  return resolveUserLeagues(
+    catalog,
+    preferences,
+    leagueOrder ?? preferences.leagueOrder
+  );
+}
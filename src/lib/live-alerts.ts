@@ -0,0 +1,156 @@
+import {
+  enqueueNotifications,
+  getLiveEventStates,
+  listLiveAlertRecipients,
+  listUnfinishedLiveEventIds,
+  saveLiveEventStates,
+} from "@/lib/db";
+import type { LiveEventState, OutboxNotification } from "@/lib/db";
+import { fetchEventById, fetchEventsByDate } from "@/lib/fixtures";
+import type { NormalizedEvent } from "@/lib/fixtures";
+
+type AlertKind = "goal" | "half_time" | "full_time";
+
+type Alert = {
+  kind: AlertKind;
+  title: string;
+  body: string;
+};
+
+// Matches kicking off late in the UTC day are still polled after midnight
+const CARRY_OVER_HOURS = 6;
+
+export type LiveAlertRunResult = {
+  tracked: number;
+  alerts: number;
+  enqueued: number;
+};
+
+function scoreline(event: NormalizedEvent) {
+  return `${event.homeTeam} ${event.homeScore ?? 0}-${event.awayScore ?? 0} ${event.awayTeam}`;
+}
+
+// Compares the latest fixture with what the previous poll saw. The first
+// sighting only records a baseline so a restarted poller doesn't replay goals.
+// A goal is either side's score going up, so a goal straight after a VAR
+// reversal isn't hidden by the lower total in between.
+function detectAlerts(
+  event: NormalizedEvent,
+  previous: LiveEventState | undefined
+): Alert[] {
+  if (!previous) {
+    return [];
+  }
+
+  const alerts: Alert[] = [];
+  if (
+    (event.homeScore ?? 0) > (previous.homeScore ?? 0) ||
+    (event.awayScore ?? 0) > (previous.awayScore ?? 0)
+  ) {
+    alerts.push({
+      kind: "goal",
+      title: "Goal!",
+      body: event.minute !== null
+        ? `${scoreline(event)} (${event.minute}')`
+        : scoreline(event),
+    });
+  }
+  if (event.status === "half_time" && previous.status !== "half_time") {
+    alerts.push({ kind: "half_time", title: "Half-time", body: scoreline(event) });
+  }
+  if (event.status === "finished" && previous.status !== "finished") {
+    alerts.push({ kind: "full_time", title: "Full-time", body: scoreline(event) });
+  }
+  return alerts;
+}
+
+// Fixtures from earlier days the previous polls saw unfinished
+async function fetchCarriedOverEvents(exclude: string[]) {
+  const eventIds = await listUnfinishedLiveEventIds(exclude, CARRY_OVER_HOURS);
+  const results = await Promise.allSettled(eventIds.map(fetchEventById));
+  const events: NormalizedEvent[] = [];
+  results.forEach((result, index) => {
+    if (result.status === "rejected") {
+      console.error(`Live alert poll failed for ${eventIds[index]}:`, result.reason);
+    } else if (result.value) {
+      events.push(result.value);
+    }
+  });
+  return events;
+}
+
+// Polls today's fixtures, plus earlier ones still in play, and queues goal,
+// half-time and full-time alerts for users who follow either team or asked
+// to be notified about the match.
+export async function pollLiveAlerts(): Promise<LiveAlertRunResult> {
+  const today = new Date().toISOString().split('T')[0];
+  const { events } = await fetchEventsByDate(today);
+  const carriedOver = await fetchCarriedOverEvents(events.map((e) => e.eventId));
+  const tracked = [...events, ...carriedOver].filter(
+    (event) => event.status !== "postponed"
+  );
+
+  const previousStates = new Map(
+    (await getLiveEventStates(tracked.map((e) => e.eventId))).map((state) => [
+      state.eventId,
+      state,
+    ])
+  );
+
+  const alertsByEvent = new Map<string, Alert[]>();
+  const goalAlerts = new Map<string, number>();
+  for (const event of tracked) {
+    const previous = previousStates.get(event.eventId);
+    const alerts = detectAlerts(event, previous);
+    if (alerts.length > 0) {
+      alertsByEvent.set(event.eventId, alerts);
+    }
+    goalAlerts.set(
+      event.eventId,
+      (previous?.goalAlerts ?? 0) +
+        (alerts.some((alert) => alert.kind === "goal") ? 1 : 0)
+    );
+  }
+
+  const alertedEvents = tracked.filter((e) => alertsByEvent.has(e.eventId));
+  const recipients = await listLiveAlertRecipients(alertedEvents);
+
+  const notifications: OutboxNotification[] = [];
+  for (const { userId, eventId } of recipients) {
+    const event = alertedEvents.find((e) => e.eventId === eventId);
+    for (const alert of alertsByEvent.get(eventId) ?? []) {
+      // Goals dedupe on their count and scoreline, so the same scoreline
+      // after a VAR reversal alerts again; phase changes once per match
+      const suffix =
+        alert.kind === "goal"
+          ? `${goalAlerts.get(eventId)}:${event?.homeScore ?? 0}-${event?.awayScore ?? 0}`
+          : "";
+      notifications.push({
+        userId,
+        eventId,
+        kind: alert.kind,
+        title: alert.title,
+        body: alert.body,
+        data: { type: alert.kind, eventId },
+        dedupeKey: [userId, eventId, alert.kind, suffix].filter(Boolean).join(":"),
+      });
+    }
+  }
+
+  const enqueued = await enqueueNotifications(notifications);
+  await saveLiveEventStates(
+    tracked.map((event) => ({
+      eventId: event.eventId,
+      homeScore: event.homeScore,
+      awayScore: event.awayScore,
+      status: event.status,
+      goalAlerts: goalAlerts.get(event.eventId) ?? 0,
+    }))
+  );
+
+  return {
+    tracked: tracked.length,
+    alerts: notifications.length,
+    enqueued,
+  };
+}
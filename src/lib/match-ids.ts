@@ -0,0 +1,19 @@
+export const MAX_BULK_MATCH_IDS = 500;
+
+// Accepts either { id } or { ids: [...] } from bulk match endpoints; null when
+// the payload is invalid
+export function parseMatchIds(body: { id?: unknown; ids?: unknown }) {
+  const raw = body.ids ?? (body.id === undefined ? undefined : [body.id]);
+  if (
+    !Array.isArray(raw) ||
+    raw.length === 0 ||
+    raw.length > MAX_BULK_MATCH_IDS
+  ) {
+    return null;
+  }
+  const ids = raw.map((value) => Number(value));
+  if (ids.some((id) => !Number.isInteger(id) || id <= 0)) {
+    return null;
+  }
+  return Array.from(new Set(ids));
+}
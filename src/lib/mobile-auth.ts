@@ -25,3 +25,41 @@ export async function getUserIdFromRequest(request: Request) {
   const session = await getServerSession(authOptions);
   return session?.user?.id ?? null;
 }
+
+const SESSION_COOKIES = [
+  "__Secure-next-auth.session-token",
+  "next-auth.session-token",
+];
+
+// The session a request belongs to: the mobile Bearer token, or the NextAuth
+// session cookie on the web.
+export function getSessionTokenFromRequest(request: Request) {
+  const authHeader = request.headers.get("authorization");
+  if (authHeader?.startsWith("Bearer ")) {
+    return authHeader.slice("Bearer ".length).trim() || null;
+  }
+
+  const cookies = new Map(
+    (request.headers.get("cookie") ?? "")
+      .split(";")
+      .map((part) => part.trim().split("="))
+      .filter(([name, value]) => name && value)
+      .map(([name, ...rest]) => [name, decodeURIComponent(rest.join("="))])
+  );
+  for (const name of SESSION_COOKIES) {
+    const value = cookies.get(name);
+    if (value) {
+      return value;
+    }
+  }
+  return null;
+}
+
+// Admins are configured with ADMIN_USER_IDS (comma-separated user ids)
+export function isAdminUser(userId: string) {
+  const adminIds = (process.env.ADMIN_USER_IDS ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+  return adminIds.includes(userId);
+}
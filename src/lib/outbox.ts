@@ -0,0 +1,35 @@
+import {
+  claimPendingNotifications,
+  recordNotificationDelivery,
+} from "@/lib/db";
+import { deliverToUser } from "@/lib/delivery";
+
+export type OutboxDispatchResult = {
+  sent: number;
+  failed: number;
+  skipped: number;
+};
+
+const BATCH_SIZE = 200;
+
+// Delivers pending outbox notifications to each recipient's devices
+export async function dispatchPendingNotifications(): Promise<OutboxDispatchResult> {
+  const notifications = await claimPendingNotifications(BATCH_SIZE);
+  const result: OutboxDispatchResult = { sent: 0, failed: 0, skipped: 0 };
+
+  for (const notification of notifications) {
+    const outcome = await deliverToUser(notification.userId, {
+      title: notification.title,
+      body: notification.body,
+      data: notification.data,
+    });
+    await recordNotificationDelivery(
+      notification.id,
+      outcome.status,
+      outcome.error
+    );
+    result[outcome.status] += 1;
+  }
+
+  return result;
+}
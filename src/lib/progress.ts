@@ -0,0 +1,129 @@
+import {
+  listManuallyWatchedEventIds,
+  listWatchedEventIdsByEventIds,
+} from "@/lib/db";
+import {
+  eventLocalDate,
+  fetchSeasonEvents,
+  type LeagueConfig,
+  type NormalizedEvent,
+} from "@/lib/fixtures";
+import { compareKickoff } from "@/lib/timezone";
+
+export type TeamCoverage = {
+  // Null when the provider didn't report the team's id
+  teamId: string | null;
+  team: string;
+  played: number;
+  watched: number;
+  favorite: boolean;
+};
+
+export type SeasonProgress = {
+  leagueId: string;
+  leagueName: string;
+  season: string;
+  // Fixtures in the season, whether played yet or not
+  fixtures: number;
+  played: number;
+  watched: number;
+  // Most watched first
+  teams: TeamCoverage[];
+  // Played fixtures of favourite teams the user hasn't logged, newest first
+  missedFavorites: NormalizedEvent[];
+};
+
+// Ids of the league's fixtures the user watched: logged from the fixture
+// list, or by hand for the same teams on the same day in the user's zone
+export async function listWatchedLeagueEventIds(
+  userId: string,
+  league: LeagueConfig,
+  events: NormalizedEvent[],
+  timeZone: string
+): Promise<string[]> {
+  const [logged, manual] = await Promise.all([
+    listWatchedEventIdsByEventIds(
+      userId,
+      events.map((event) => event.eventId)
+    ),
+    listManuallyWatchedEventIds(
+      userId,
+      league.id,
+      events.map((event) => ({
+        eventId: event.eventId,
+        localDate: eventLocalDate(event, timeZone),
+        homeTeamId: event.homeTeamId ?? null,
+        homeTeam: event.homeTeam,
+        awayTeamId: event.awayTeamId ?? null,
+        awayTeam: event.awayTeam,
+      })),
+      timeZone
+    ),
+  ]);
+  return Array.from(new Set([...logged, ...manual]));
+}
+
+export async function getSeasonProgress(
+  userId: string,
+  league: LeagueConfig,
+  season: string,
+  favoriteTeams: string[],
+  timeZone: string
+): Promise<SeasonProgress> {
+  const events = await fetchSeasonEvents(league, season);
+  const played = events
+    .filter((event) => event.status === "finished")
+    .sort((a, b) => compareKickoff(b, a));
+  const watchedIds = new Set(
+    await listWatchedLeagueEventIds(userId, league, played, timeZone)
+  );
+
+  const favorites = new Set(favoriteTeams);
+  const isFavorite = (teamId: string | undefined, team: string) =>
+    (teamId !== undefined && favorites.has(teamId)) || favorites.has(team);
+
+  const teams = new Map<string, TeamCoverage>();
+  const missedFavorites: NormalizedEvent[] = [];
+  for (const event of played) {
+    const watched = watchedIds.has(event.eventId);
+    const sides = [
+      { teamId: event.homeTeamId, team: event.homeTeam },
+      { teamId: event.awayTeamId, team: event.awayTeam },
+    ];
+    for (const { teamId, team } of sides) {
+      const key = teamId ?? team;
+      const coverage = teams.get(key) ?? {
+        teamId: teamId ?? null,
+        team,
+        played: 0,
+        watched: 0,
+        favorite: isFavorite(teamId, team),
+      };
+      coverage.played += 1;
+      coverage.watched += watched ? 1 : 0;
+      teams.set(key, coverage);
+    }
+    if (
+      !watched &&
+      sides.some(({ teamId, team }) => isFavorite(teamId, team))
+    ) {
+      missedFavorites.push(event);
+    }
+  }
+
+  return {
+    leagueId: league.id,
+    leagueName: league.name,
+    season,
+    fixtures: events.length,
+    played: played.length,
+    watched: watchedIds.size,
+    teams: Array.from(teams.values()).sort(
+      (a, b) =>
+        b.watched - a.watched ||
+        b.played - a.played ||
+        a.team.localeCompare(b.team)
+    ),
+    missedFavorites,
+  };
+}
@@ -0,0 +1,93 @@
+export type PushMessage = {
+  to: string;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+};
+
+export type PushResult = {
+  token: string;
+  ok: boolean;
+  error?: string;
+  // The device uninstalled the app or revoked permission
+  unregistered?: boolean;
+};
+
+// A delivery transport for push notifications, selected with PUSH_TRANSPORT
+export type PushSender = {
+  id: string;
+  send(messages: PushMessage[]): Promise<PushResult[]>;
+};
+
+type ExpoTicket = {
+  status: "ok" | "error";
+  message?: string;
+  details?: { error?: string };
+};
+
+const EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send";
+const EXPO_BATCH_SIZE = 100;
+
+const expoSender: PushSender = {
+  id: "expo",
+  async send(messages) {
+    const results: PushResult[] = [];
+    for (let i = 0; i < messages.length; i += EXPO_BATCH_SIZE) {
+      const batch = messages.slice(i, i + EXPO_BATCH_SIZE);
+      const res = await fetch(EXPO_PUSH_URL, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(process.env.EXPO_ACCESS_TOKEN
+            ? { Authorization: `Bearer ${process.env.EXPO_ACCESS_TOKEN}` }
+            : {}),
+        },
+        body: JSON.stringify(
+          batch.map((message) => ({ ...message, sound: "default" }))
+        ),
+      });
+      if (!res.ok) {
+        const error = `Expo push error: ${res.status}`;
+        results.push(...batch.map((message) => ({ token: message.to, ok: false, error })));
+        continue;
+      }
+      const data = (await res.json()) as { data: ExpoTicket[] };
+      batch.forEach((message, index) => {
+        const ticket = data.data[index];
+        results.push({
+          token: message.to,
+          ok: ticket?.status === "ok",
+          error: ticket?.status === "ok" ? undefined : ticket?.message ?? "Unknown error",
+          unregistered: ticket?.details?.error === "DeviceNotRegistered",
+        });
+      });
+    }
+    return results;
+  },
+};
+
+// Local transport: logs messages instead of delivering them
+const stubSender: PushSender = {
+  id: "stub",
+  async send(messages) {
+    for (const message of messages) {
+      console.log(`[push:stub] ${message.to}: ${message.title} – ${message.body}`);
+    }
+    return messages.map((message) => ({ token: message.to, ok: true }));
+  },
+};
+
+const SENDERS: Record<string, PushSender> = {
+  [expoSender.id]: expoSender,
+  [stubSender.id]: stubSender,
+};
+
+// Defaults to the stub so local development never sends real notifications
+export function getPushSender(): PushSender {
+  const name = process.env.PUSH_TRANSPORT ?? stubSender.id;
+  const sender = SENDERS[name];
+  if (!sender) {
+    throw new Error(`Unknown PUSH_TRANSPORT: ${name}`);
+  }
+  return sender;
+}
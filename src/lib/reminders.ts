@@ -0,0 +1,54 @@
+import {
+  claimDueReminders,
+  recordReminderDelivery,
+  skipMissedReminders,
+} from "@/lib/db";
+import type { DueReminder } from "@/lib/db";
+import { deliverToUser } from "@/lib/delivery";
+
+export type ReminderRunResult = {
+  claimed: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+};
+
+const BATCH_SIZE = 100;
+
+function getDefaultLeadMinutes() {
+  const value = Number(process.env.REMINDER_LEAD_MINUTES ?? 15);
+  return Number.isFinite(value) && value > 0 ? value : 15;
+}
+
+function buildBody(reminder: DueReminder) {
+  const minutes = Math.max(
+    1,
+    Math.round((new Date(reminder.kickoffAt).getTime() - Date.now()) / 60000)
+  );
+  return `${reminder.homeTeam} vs ${reminder.awayTeam} kicks off in ${minutes} min (${reminder.leagueName}).`;
+}
+
+// Sends kickoff reminders for notified events whose lead time has been
+// reached and records the delivery outcome on each row.
+export async function sendKickoffReminders(): Promise<ReminderRunResult> {
+  await skipMissedReminders();
+  const reminders = await claimDueReminders(getDefaultLeadMinutes(), BATCH_SIZE);
+  const result: ReminderRunResult = {
+    claimed: reminders.length,
+    sent: 0,
+    failed: 0,
+    skipped: 0,
+  };
+
+  for (const reminder of reminders) {
+    const outcome = await deliverToUser(reminder.userId, {
+      title: "Kickoff soon",
+      body: buildBody(reminder),
+      data: { type: "kickoff_reminder", eventId: reminder.eventId },
+    });
+    await recordReminderDelivery(reminder.id, outcome.status, outcome.error);
+    result[outcome.status] += 1;
+  }
+
+  return result;
+}
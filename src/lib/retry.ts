@@ -0,0 +1,27 @@
+type RetryOptions = {
+  attempts?: number;
+  baseDelayMs?: number;
+};
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Retries a failing call with exponential backoff (250ms, 500ms, ...)
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  { attempts = 3, baseDelayMs = 250 }: RetryOptions = {}
+): Promise<T> {
+  let lastError: unknown;
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      lastError = error;
+      if (attempt < attempts - 1) {
+        await sleep(baseDelayMs * 2 ** attempt);
+      }
+    }
+  }
+  throw lastError;
+}
@@ -0,0 +1,51 @@
+import { applyEventScoreSync, listEventIdsNeedingScoreSync } from "@/lib/db";
+import { fetchEventById } from "@/lib/fixtures";
+
+export type ScoreSyncResult = {
+  checked: number;
+  updated: number;
+  missing: number;
+  failed: number;
+};
+
+// Kept small so one run stays inside TheSportsDB's free-tier rate limit
+const DEFAULT_BATCH_SIZE = 25;
+
+// Re-fetches watched/notified events whose scores may be stale and writes the
+// provider's latest score and status back to every row for that event.
+export async function syncStaleScores(
+  limit = DEFAULT_BATCH_SIZE
+): Promise<ScoreSyncResult> {
+  const eventIds = await listEventIdsNeedingScoreSync(limit);
+  const result: ScoreSyncResult = {
+    checked: eventIds.length,
+    updated: 0,
+    missing: 0,
+    failed: 0,
+  };
+
+  // Sequential on purpose: the upstream rate-limits bursts
+  for (const eventId of eventIds) {
+    try {
+      const event = await fetchEventById(eventId);
+      if (!event) {
+        await applyEventScoreSync(eventId, null);
+        result.missing += 1;
+        continue;
+      }
+      await applyEventScoreSync(eventId, {
+        homeScore: event.homeScore,
+        awayScore: event.awayScore,
+        status: event.status,
+        venue: event.venue,
+        country: event.country,
+      });
+      result.updated += 1;
+    } catch (error) {
+      console.error(`Score sync failed for event ${eventId}:`, error);
+      result.failed += 1;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,218 @@
+import {
+  fetchTeamMatches,
+  searchEvents,
+  searchTeams,
+  type NormalizedEvent,
+  type TeamSummary,
+} from "@/lib/fixtures";
+import { getPool } from "@/lib/pool";
+import { localDateSql } from "@/lib/timezone";
+
+export const MIN_QUERY_LENGTH = 2;
+export const MAX_QUERY_LENGTH = 100;
+const MAX_TERMS = 5;
+
+const HISTORY_LIMIT = 20;
+const TEAM_LIMIT = 5;
+const FIXTURE_LIMIT = 10;
+
+// A match from the user's own viewing log
+export type HistoryMatch = {
+  id: number;
+  eventId: string | null;
+  source: "fixture" | "manual";
+  // Calendar day in the user's timezone
+  date: string;
+  kickoffAt: string | null;
+  league: string;
+  homeTeam: string;
+  awayTeam: string;
+  homeScore: number | null;
+  awayScore: number | null;
+};
+
+// Higher scores rank first; see scoreTerms
+export type SearchResult =
+  | { type: "history"; score: number; match: HistoryMatch }
+  | { type: "fixture"; score: number; event: NormalizedEvent }
+  | { type: "team"; score: number; team: TeamSummary };
+
+export type SearchResponse = {
+  query: string;
+  results: SearchResult[];
+  // Set when the fixture provider couldn't be searched; history still is
+  providerError: string | null;
+};
+
+// Ties keep the user's own log ahead of provider results
+const TYPE_ORDER: Record<SearchResult["type"], number> = {
+  history: 0,
+  fixture: 1,
+  team: 2,
+};
+
+// Lowercased search terms, or null when the query is too short or too long
+export function parseSearchQuery(value: string | null) {
+  const query = value?.trim() ?? "";
+  if (query.length < MIN_QUERY_LENGTH || query.length > MAX_QUERY_LENGTH) {
+    return null;
+  }
+  return query.toLowerCase().split(/\s+/).slice(0, MAX_TERMS);
+}
+
+// Per term: 3 for an exact field, 2 for a word prefix, 1 for a substring.
+// Every term has to match something, otherwise the score is 0.
+function scoreTerms(fields: (string | null)[], terms: string[]) {
+  const values = fields
+    .filter((field): field is string => Boolean(field))
+    .map((field) => field.toLowerCase());
+  let total = 0;
+  for (const term of terms) {
+    const best = Math.max(
+      0,
+      ...values.map((value) =>
+        value === term
+          ? 3
+          : value.split(/\s+/).some((word) => word.startsWith(term))
+          ? 2
+          : value.includes(term)
+          ? 1
+          : 0
+      )
+    );
+    if (best === 0) return 0;
+    total += best;
+  }
+  return total;
+}
+
+function escapeLike(term: string) {
+  return term.replace(/[\\%_]/g, "\\$&");
+}
+
+// Every term has to appear in a team, the league or the date (YYYY-MM-DD
+// prefix, so "2024-05" finds a month)
+async function searchHistory(
+  userId: string,
+  terms: string[],
+  timeZone: string
+): Promise<HistoryMatch[]> {
+  const pool = getPool();
+  const localDate = `to_char(${localDateSql("$3")}, 'YYYY-MM-DD')`;
+  const result = await pool.query(
+    `
+      SELECT
+        id,
+        event_id as "eventId",
+        source,
+        ${localDate} as date,
+        kickoff_at as "kickoffAt",
+        league_name as league,
+        home_team as "homeTeam",
+        away_team as "awayTeam",
+        home_score as "homeScore",
+        away_score as "awayScore"
+      FROM watched_events
+      WHERE user_id = $1
+        AND deleted_at IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM unnest($2::text[]) as term
+          WHERE NOT (
+            home_team ILIKE '%' || term || '%'
+            OR away_team ILIKE '%' || term || '%'
+            OR league_name ILIKE '%' || term || '%'
+            OR ${localDate} LIKE term || '%'
+          )
+        )
+      ORDER BY COALESCE(kickoff_at, date::timestamp AT TIME ZONE 'UTC') DESC, id DESC
+      LIMIT $4
+    `,
+    [userId, terms.map(escapeLike), timeZone, HISTORY_LIMIT]
+  );
+  return result.rows as HistoryMatch[];
+}
+
+// Upcoming fixtures for the best matching team, plus fixtures found by name
+async function searchUpcoming(query: string, teams: TeamSummary[]) {
+  const [byTeam, byName] = await Promise.all([
+    teams[0] ? fetchTeamMatches(teams[0].teamId) : null,
+    searchEvents(query),
+  ]);
+  const now = Date.now();
+  const upcoming = new Map<string, NormalizedEvent>();
+  for (const event of [...(byTeam?.upcomingMatches ?? []), ...byName]) {
+    const kickoff = event.kickoffAt ? Date.parse(event.kickoffAt) : NaN;
+    if (event.status !== "scheduled" || !(kickoff >= now)) continue;
+    upcoming.set(event.eventId, event);
+  }
+  return Array.from(upcoming.values());
+}
+
+async function searchProvider(
+  query: string,
+  terms: string[]
+): Promise<SearchResult[]> {
+  const teams = (await searchTeams(query))
+    .map((team) => ({ team, score: scoreTerms([team.name], terms) }))
+    .filter((result) => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, TEAM_LIMIT);
+  const fixtures = (
+    await searchUpcoming(
+      query,
+      teams.map((result) => result.team)
+    )
+  )
+    .map((event) => ({
+      event,
+      // Fixtures found through a team can miss the other terms; keep them
+      score: Math.max(
+        scoreTerms([event.homeTeam, event.awayTeam, event.leagueName], terms),
+        1
+      ),
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, FIXTURE_LIMIT);
+
+  return [
+    ...teams.map(({ team, score }) => ({ type: "team" as const, score, team })),
+    ...fixtures.map(({ event, score }) => ({
+      type: "fixture" as const,
+      score,
+      event,
+    })),
+  ];
+}
+
+export async function search(
+  userId: string,
+  query: string,
+  terms: string[],
+  timeZone: string
+): Promise<SearchResponse> {
+  let providerError: string | null = null;
+  const [history, providerResults] = await Promise.all([
+    searchHistory(userId, terms, timeZone),
+    searchProvider(query, terms).catch((error: unknown) => {
+      console.error("Fixture search failed:", error);
+      providerError = error instanceof Error ? error.message : String(error);
+      return [];
+    }),
+  ]);
+
+  const results: SearchResult[] = history.map((match) => ({
+    type: "history",
+    // Searching by date always hits history, so the date counts as a field
+    score: scoreTerms(
+      [match.homeTeam, match.awayTeam, match.league, match.date],
+      terms
+    ),
+    match,
+  }));
+  results.push(...providerResults);
+  results.sort(
+    (a, b) => b.score - a.score || TYPE_ORDER[a.type] - TYPE_ORDER[b.type]
+  );
+
+  return { query, results, providerError };
+}
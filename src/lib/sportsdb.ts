@@ -1,3 +1,18 @@
+import type {
+  EventDetails,
+  FixtureProvider,
+  LeagueConfig,
+  LeagueStandings,
+  LineupPlayer,
+  MatchStatus,
+  NormalizedEvent,
+  TeamDetails,
+  TeamRef,
+  TeamSummary,
+  TimelineEntry,
+} from "@/lib/fixtures";
+import { compareKickoff, toKickoffAt } from "@/lib/timezone";
+
 type SportsDbEvent = {
   idEvent: string;
   idLeague: string;
@@ -11,50 +26,110 @@ type SportsDbEvent = {
   intAwayScore: string | null;
   dateEvent: string | null;
   strTime: string | null;
+  strStatus?: string | null;
+  strProgress?: string | null;
+  strPostponed?: string | null;
+  strVenue?: string | null;
+  strCountry?: string | null;
+  strSport?: string | null;
+  strOfficial?: string | null;
 };
 
 type SportsDbResponse = {
   events: SportsDbEvent[] | null;
 };
 
-export type LeagueConfig = {
-  id: string;
-  name: string;
-  query: string;
-  badge: string;
+type SportsDbTeam = {
+  idTeam: string;
+  strTeam: string;
+  strTeamShort?: string | null;
+  // Comma-separated alternative names
+  strAlternate?: string | null;
+  strSport?: string | null;
+  idLeague?: string | null;
+  strLeague?: string | null;
+  strBadge?: string | null;
+  strTeamBadge?: string | null;
+  strCountry?: string | null;
+  strStadium?: string | null;
+  intStadiumCapacity?: string | null;
+  intFormedYear?: string | null;
+};
+
+type SportsDbTimelineEntry = {
+  // "Goal", "Card" or "subst"
+  strTimeline: string;
+  strTimelineDetail?: string | null;
+  strHome?: string | null;
+  strPlayer?: string | null;
+  strAssist?: string | null;
+  intTime?: string | null;
+};
+
+type SportsDbLineupEntry = {
+  strPlayer: string;
+  strPosition?: string | null;
+  strHome?: string | null;
+  strSubstitute?: string | null;
+  intSquadNumber?: string | null;
 };
 
-export type NormalizedEvent = {
-  eventId: string;
-  leagueId: string;
-  leagueName: string;
-  leagueBadge: string;
-  date: string;
-  time: string;
-  homeTeam: string;
-  awayTeam: string;
-  homeTeamId?: string;
-  awayTeamId?: string;
-  homeScore: number | null;
-  awayScore: number | null;
+type SportsDbTableRow = {
+  intRank: string;
+  idTeam: string;
+  strTeam: string;
+  strBadge?: string | null;
+  intPlayed: string;
+  intWin: string;
+  intDraw: string;
+  intLoss: string;
+  intGoalsFor: string;
+  intGoalsAgainst: string;
+  intGoalDifference: string;
+  intPoints: string;
+  strForm?: string | null;
+  strDescription?: string | null;
 };
 
 const API_KEY = process.env.THESPORTSDB_API_KEY ?? "123";
 const BASE_URL = `https://www.thesportsdb.com/api/v1/json/${API_KEY}`;
 
-export const FEATURED_LEAGUES: LeagueConfig[] = [
-  { id: "4328", name: "English Premier League", query: "English Premier League", badge: "https://r2.thesportsdb.com/images/media/league/badge/gasy9d1737743125.png" },
-  { id: "4335", name: "Spanish La Liga", query: "Spanish La Liga", badge: "https://r2.thesportsdb.com/images/media/league/badge/ja4it51687628717.png" },
-  { id: "4332", name: "Italian Serie A", query: "Italian Serie A", badge: "https://r2.thesportsdb.com/images/media/league/badge/67q3q21679951383.png" },
-  { id: "4331", name: "German Bundesliga", query: "German Bundesliga", badge: "https://r2.thesportsdb.com/images/media/league/badge/teqh1b1679952008.png" },
-  { id: "4334", name: "French Ligue 1", query: "French Ligue 1", badge: "https://r2.thesportsdb.com/images/media/league/badge/9f7z9d1742983155.png" },
-  { id: "4339", name: "Turkish Super Lig", query: "Turkish Super Lig", badge: "https://r2.thesportsdb.com/images/media/league/badge/h7xx231601671132.png" },
-  { id: "4480", name: "UEFA Champions League", query: "UEFA Champions League", badge: "https://r2.thesportsdb.com/images/media/league/badge/facv1u1742998896.png" },
-];
+const POSTPONED_STATUSES = ["PST", "POSTPONED", "CANC", "CANCELLED", "ABD", "ABANDONED", "SUSP", "SUSPENDED"];
+const HALF_TIME_STATUSES = ["HT", "HALFTIME", "BT"];
+const FINISHED_STATUSES = ["FT", "AET", "PEN", "MATCH FINISHED", "AWD", "WO"];
+const LIVE_STATUSES = ["1H", "2H", "ET", "P", "LIVE", "INT", "IN PROGRESS"];
 
-const cache = new Map<string, { expiresAt: number; data: NormalizedEvent[] }>();
-const teamCache = new Map<string, { expiresAt: number; data: { pastMatches: NormalizedEvent[]; upcomingMatches: NormalizedEvent[] } }>();
-const CACHE_TTL_MS = 5 * 60 * 1000;
+function mapStatus(event: SportsDbEvent): MatchStatus {
+  const status = (event.strStatus ?? "").trim().toUpperCase();
+  if (event.strPostponed === "yes" || POSTPONED_STATUSES.includes(status)) {
+    return "postponed";
+  }
+  if (HALF_TIME_STATUSES.includes(status)) {
+    return "half_time";
+  }
+  if (FINISHED_STATUSES.includes(status)) {
+    return "finished";
+  }
+  if (LIVE_STATUSES.includes(status)) {
+    return "live";
+  }
+  // Older events often have no status but do have a final score
+  const today = new Date().toISOString().split('T')[0];
+  if (
+    !status &&
+    event.intHomeScore !== null &&
+    event.dateEvent !== null &&
+    event.dateEvent < today
+  ) {
+    return "finished";
+  }
+  return "scheduled";
+}
+
+function parseMinute(progress: string | null | undefined) {
+  const minute = Number.parseInt(progress ?? "", 10);
+  return Number.isNaN(minute) ? null : minute;
+}
 
 function normalizeEvent(
   event: SportsDbEvent,
@@ -63,6 +138,7 @@ function normalizeEvent(
   if (!event.idEvent || !event.dateEvent) {
     return null;
   }
+  const status = mapStatus(event);
   return {
     eventId: event.idEvent,
     leagueId: event.idLeague || league.id,
@@ -70,6 +146,7 @@ function normalizeEvent(
     leagueBadge: league.badge,
     date: event.dateEvent,
     time: event.strTime ?? "",
+    kickoffAt: toKickoffAt(event.dateEvent, event.strTime),
     homeTeam: event.strHomeTeam ?? "TBD",
     awayTeam: event.strAwayTeam ?? "TBD",
     homeTeamId: event.idHomeTeam,
@@ -78,6 +155,10 @@ function normalizeEvent(
       event.intHomeScore === null ? null : Number(event.intHomeScore),
     awayScore:
       event.intAwayScore === null ? null : Number(event.intAwayScore),
+    status,
+    minute: status === "live" ? parseMinute(event.strProgress) : null,
+    venue: event.strVenue?.trim() || null,
+    country: event.strCountry?.trim() || null,
   };
 }
 
@@ -101,101 +182,7 @@ async function fetchLeagueEvents(date: string, league: LeagueConfig) {
     .filter((event): event is NormalizedEvent => Boolean(event));
 }
 
-export async function fetchEventsByDate(date: string) {
-  // For today's date, use shorter cache (30 seconds) for live scores
-  const today = new Date().toISOString().split('T')[0];
-  const isToday = date === today;
-  const ttl = isToday ? 30 * 1000 : CACHE_TTL_MS; // 30 seconds for today, 5 minutes for other dates
-
-  const cached = cache.get(date);
-  if (cached && cached.expiresAt > Date.now()) {
-    return cached.data;
-  }
-
-  const eventsByLeague = await Promise.all(
-    FEATURED_LEAGUES.map((league) => fetchLeagueEvents(date, league))
-  );
-  const events = eventsByLeague.flat();
-
-  cache.set(date, { expiresAt: Date.now() + ttl, data: events });
-  return events;
-}
-
-export type TeamsByLeague = {
-  leagueId: string;
-  leagueName: string;
-  leagueBadge: string;
-  teams: string[];
-};
-
-// Curated list of top teams for each featured league
-// Note: TheSportsDB free tier doesn't support lookup_all_teams endpoint
-const FEATURED_TEAMS: Record<string, string[]> = {
-  "4328": [ // English Premier League
-    "Arsenal", "Aston Villa", "Brighton", "Burnley", "Chelsea",
-    "Crystal Palace", "Everton", "Fulham", "Liverpool", "Luton Town",
-    "Manchester City", "Manchester Utd", "Newcastle", "Nottingham Forest",
-    "Sheffield Utd", "Tottenham", "West Ham", "Wolves"
-  ],
-  "4335": [ // Spanish La Liga
-    "Athletic Bilbao", "Atletico Madrid", "Barcelona", "Celta Vigo",
-    "Getafe", "Girona", "Granada", "Las Palmas", "Mallorca",
-    "Osasuna", "Rayo Vallecano", "Real Betis", "Real Madrid",
-    "Real Sociedad", "Sevilla", "Valencia", "Villarreal"
-  ],
-  "4332": [ // Italian Serie A
-    "Atalanta", "Bologna", "Cagliari", "Empoli", "Fiorentina",
-    "Frosinone", "Genoa", "Hellas Verona", "Inter", "Juventus",
-    "Lazio", "Lecce", "AC Milan", "Monza", "Napoli", "Roma",
-    "Salernitana", "Sassuolo", "Torino", "Udinese"
-  ],
-  "4331": [ // German Bundesliga
-    "Augsburg", "Bayer Leverkusen", "Bayern Munich", "Bochum",
-    "Borussia Dortmund", "Darmstadt", "Eintracht Frankfurt",
-    "FC Koln", "Freiburg", "Heidenheim", "Hoffenheim",
-    "Mainz", "Monchengladbach", "RB Leipzig", "Stuttgart",
-    "Union Berlin", "Werder Bremen", "Wolfsburg"
-  ],
-  "4334": [ // French Ligue 1
-    "Brest", "Clermont Foot", "Le Havre", "Lens", "Lille",
-    "Lyon", "Marseille", "Metz", "Monaco", "Montpellier",
-    "Nantes", "Nice", "Paris Saint Germain", "Reims", "Rennes",
-    "Strasbourg", "Toulouse"
-  ],
-  "4339": [ // Turkish Super Lig
-    "Adana Demirspor", "Alanyaspor", "Ankaragucu", "Antalyaspor",
-    "Besiktas", "Fatih Karagumruk", "Fenerbahce", "Galatasaray",
-    "Gaziantep FK", "Hatayspor", "Istanbulspor", "Kasimpasa",
-    "Kayserispor", "Konyaspor", "Pendikspor", "Rizespor",
-    "Samsunspor", "Sivasspor", "Trabzonspor"
-  ],
-  "4480": [ // UEFA Champions League
-    "Arsenal", "Atletico Madrid", "Barcelona", "Bayern Munich",
-    "Benfica", "Borussia Dortmund", "Chelsea", "Copenhagen",
-    "Feyenoord", "Galatasaray", "Inter", "Lazio", "Leipzig",
-    "Lens", "Liverpool", "Manchester City", "Manchester Utd",
-    "AC Milan", "Napoli", "Newcastle", "Paris Saint Germain",
-    "Porto", "PSV", "Real Madrid", "Real Sociedad", "Salzburg",
-    "Sevilla", "Shakhtar Donetsk", "Union Berlin", "Young Boys"
-  ]
-};
-
-export function getAllTeams(): TeamsByLeague[] {
-  return FEATURED_LEAGUES.map((league) => ({
-    leagueId: league.id,
-    leagueName: league.name,
-    leagueBadge: league.badge,
-    teams: FEATURED_TEAMS[league.id] || [],
-  })).filter((league) => league.teams.length > 0);
-}
-
-export async function fetchTeamMatches(teamId: string) {
-  const cacheKey = `team:${teamId}`;
-  const cached = teamCache.get(cacheKey);
-  if (cached && cached.expiresAt > Date.now()) {
-    return cached.data;
-  }
-
+async function fetchTeamMatches(teamId: string, leagues: LeagueConfig[]) {
   const [pastRes, upcomingRes] = await Promise.all([
     fetch(`${BASE_URL}/eventslast.php?id=${teamId}`, {
       next: { revalidate: 300 }
@@ -214,9 +201,9 @@ export async function fetchTeamMatches(teamId: string) {
 
   // Find league config for badge (use first event's league or default)
   const findLeagueConfig = (events: SportsDbEvent[] | null | undefined): LeagueConfig => {
-    if (!events || events.length === 0) return FEATURED_LEAGUES[0];
+    if (!events || events.length === 0) return leagues[0];
     const leagueId = events[0].idLeague;
-    return FEATURED_LEAGUES.find(l => l.id === leagueId) || FEATURED_LEAGUES[0];
+    return leagues.find(l => l.id === leagueId) || leagues[0];
   };
 
   const pastEvents = pastData.results || pastData.events || [];
@@ -233,7 +220,342 @@ export async function fetchTeamMatches(teamId: string) {
     .map(e => normalizeEvent(e, upcomingLeague))
     .filter((e): e is NormalizedEvent => Boolean(e));
 
-  const result = { pastMatches, upcomingMatches };
-  teamCache.set(cacheKey, { expiresAt: Date.now() + CACHE_TTL_MS, data: result });
-  return result;
+  return { pastMatches, upcomingMatches };
+}
+
+async function fetchEventById(eventId: string, leagues: LeagueConfig[]) {
+  const res = await fetch(`${BASE_URL}/lookupevent.php?id=${eventId}`, {
+    cache: "no-store",
+  });
+  if (!res.ok) {
+    throw new Error(`TheSportsDB error: ${res.status}`);
+  }
+  const data = (await res.json()) as SportsDbResponse;
+  const event = data.events?.[0];
+  if (!event) {
+    return null;
+  }
+  return normalizeEvent(event, findLeague(event, leagues));
+}
+
+function toTimelineEntry(entry: SportsDbTimelineEntry): TimelineEntry | null {
+  const type = entry.strTimeline.toLowerCase();
+  const kind = type.includes("goal")
+    ? "goal"
+    : type.includes("card")
+    ? "card"
+    : type.startsWith("subst")
+    ? "substitution"
+    : null;
+  if (!kind || !entry.strPlayer) {
+    return null;
+  }
+  const detail = entry.strTimelineDetail?.trim() || null;
+  return {
+    kind,
+    minute: parseMinute(entry.intTime),
+    side: entry.strHome === "Yes" ? "home" : "away",
+    player: entry.strPlayer,
+    detail: kind === "substitution" || detail === "Normal Goal" ? null : detail,
+    relatedPlayer: entry.strAssist?.trim() || null,
+  };
+}
+
+function toLineupPlayer(entry: SportsDbLineupEntry): LineupPlayer {
+  const number = Number.parseInt(entry.intSquadNumber ?? "", 10);
+  return {
+    name: entry.strPlayer,
+    number: Number.isNaN(number) ? null : number,
+    position: entry.strPosition?.trim() || null,
+    substitute: entry.strSubstitute === "Yes",
+  };
+}
+
+// Timelines and lineups are missing for many matches (and on some API
+// tiers); the match itself is still worth showing without them
+async function fetchOptionalList<T>(url: string, key: string): Promise<T[]> {
+  try {
+    const res = await fetch(url, { next: { revalidate: 30 } });
+    if (!res.ok) {
+      throw new Error(`TheSportsDB error: ${res.status}`);
+    }
+    const data = (await res.json()) as Record<string, T[] | null>;
+    return data[key] ?? [];
+  } catch (error) {
+    console.error(`Optional TheSportsDB lookup failed (${key}):`, error);
+    return [];
+  }
+}
+
+async function fetchEventDetails(
+  eventId: string,
+  leagues: LeagueConfig[]
+): Promise<EventDetails | null> {
+  const [res, timeline, lineup] = await Promise.all([
+    fetch(`${BASE_URL}/lookupevent.php?id=${eventId}`, { cache: "no-store" }),
+    fetchOptionalList<SportsDbTimelineEntry>(
+      `${BASE_URL}/lookuptimeline.php?id=${eventId}`,
+      "timeline"
+    ),
+    fetchOptionalList<SportsDbLineupEntry>(
+      `${BASE_URL}/lookuplineup.php?id=${eventId}`,
+      "lineup"
+    ),
+  ]);
+  if (!res.ok) {
+    throw new Error(`TheSportsDB error: ${res.status}`);
+  }
+  const data = (await res.json()) as SportsDbResponse;
+  const event = data.events?.[0];
+  const normalized = event ? normalizeEvent(event, findLeague(event, leagues)) : null;
+  if (!event || !normalized) {
+    return null;
+  }
+
+  const players = lineup.map((entry) => ({
+    player: toLineupPlayer(entry),
+    home: entry.strHome === "Yes",
+  }));
+  return {
+    ...normalized,
+    referee: event.strOfficial?.trim() || null,
+    timeline: timeline
+      .map(toTimelineEntry)
+      .filter((entry): entry is TimelineEntry => Boolean(entry))
+      .sort((a, b) => (a.minute ?? 0) - (b.minute ?? 0)),
+    lineups:
+      players.length > 0
+        ? {
+            home: players.filter((p) => p.home).map((p) => p.player),
+            away: players.filter((p) => !p.home).map((p) => p.player),
+          }
+        : null,
+  };
+}
+
+function findLeague(event: SportsDbEvent, leagues: LeagueConfig[]) {
+  return (
+    leagues.find((l) => l.id === event.idLeague) ?? {
+      id: event.idLeague,
+      name: event.strLeague,
+      query: event.strLeague,
+      badge: "",
+    }
+  );
+}
+
+function normalizeTeam(team: SportsDbTeam): TeamSummary {
+  return {
+    teamId: team.idTeam,
+    name: team.strTeam,
+    shortName: team.strTeamShort?.trim() || null,
+    leagueId: team.idLeague ?? null,
+    leagueName: team.strLeague ?? null,
+    badge: team.strBadge ?? team.strTeamBadge ?? null,
+    country: team.strCountry ?? null,
+    aliases: (team.strAlternate ?? "")
+      .split(",")
+      .map((alias) => alias.trim())
+      .filter((alias) => alias && alias !== team.strTeam),
+  };
+}
+
+function parseCount(value: string | null | undefined) {
+  const count = Number.parseInt(value ?? "", 10);
+  return Number.isNaN(count) || count <= 0 ? null : count;
 }
+
+async function fetchTeam(teamId: string): Promise<TeamDetails | null> {
+  const res = await fetch(`${BASE_URL}/lookupteam.php?id=${teamId}`, {
+    next: { revalidate: 3600 },
+  });
+  if (!res.ok) {
+    throw new Error(`TheSportsDB error: ${res.status}`);
+  }
+  const data = (await res.json()) as { teams: SportsDbTeam[] | null };
+  const team = data.teams?.[0];
+  if (!team) {
+    return null;
+  }
+  return {
+    ...normalizeTeam(team),
+    stadium: team.strStadium?.trim() || null,
+    stadiumCapacity: parseCount(team.intStadiumCapacity),
+    founded: parseCount(team.intFormedYear),
+  };
+}
+
+async function searchTeams(query: string): Promise<TeamSummary[]> {
+  const res = await fetch(
+    `${BASE_URL}/searchteams.php?t=${encodeURIComponent(query)}`,
+    { next: { revalidate: 3600 } }
+  );
+  if (!res.ok) {
+    throw new Error(`TheSportsDB error: ${res.status}`);
+  }
+  const data = (await res.json()) as { teams: SportsDbTeam[] | null };
+  return (data.teams ?? [])
+    .filter((team) => team.strSport === "Soccer")
+    .map(normalizeTeam);
+}
+
+// lookup_all_teams needs a paid key; search_all_teams works on the free tier
+async function fetchLeagueTeams(league: LeagueConfig) {
+  const res = await fetch(
+    `${BASE_URL}/search_all_teams.php?l=${encodeURIComponent(league.query)}`,
+    { cache: "no-store" }
+  );
+  if (!res.ok) {
+    throw new Error(`TheSportsDB error: ${res.status}`);
+  }
+  const data = (await res.json()) as { teams: SportsDbTeam[] | null };
+  return (data.teams ?? []).map((team) => ({
+    ...normalizeTeam(team),
+    leagueId: league.id,
+    leagueName: league.name,
+  }));
+}
+
+async function searchEvents(query: string, leagues: LeagueConfig[]) {
+  // Event names look like "Arsenal vs Chelsea"; the API wants underscores
+  const name = query.trim().replace(/\s+/g, "_");
+  const res = await fetch(
+    `${BASE_URL}/searchevents.php?e=${encodeURIComponent(name)}`,
+    { next: { revalidate: 300 } }
+  );
+  if (!res.ok) {
+    throw new Error(`TheSportsDB error: ${res.status}`);
+  }
+  const data = (await res.json()) as { event: SportsDbEvent[] | null };
+  return (data.event ?? [])
+    .filter((event) => !event.strSport || event.strSport === "Soccer")
+    .map((event) => normalizeEvent(event, findLeague(event, leagues)))
+    .filter((event): event is NormalizedEvent => Boolean(event));
+}
+
+async function fetchSeasons(league: LeagueConfig) {
+  const res = await fetch(`${BASE_URL}/search_all_seasons.php?id=${league.id}`, {
+    next: { revalidate: 3600 },
+  });
+  if (!res.ok) {
+    throw new Error(`TheSportsDB error: ${res.status}`);
+  }
+  const data = (await res.json()) as {
+    seasons: { strSeason: string }[] | null;
+  };
+  return (data.seasons ?? [])
+    .map((season) => season.strSeason)
+    .sort((a, b) => b.localeCompare(a));
+}
+
+async function fetchSeasonEvents(league: LeagueConfig, season: string) {
+  const res = await fetch(
+    `${BASE_URL}/eventsseason.php?id=${league.id}&s=${encodeURIComponent(season)}`,
+    { next: { revalidate: 300 } }
+  );
+  if (!res.ok) {
+    throw new Error(`TheSportsDB error: ${res.status}`);
+  }
+  const data = (await res.json()) as SportsDbResponse;
+  return (data.events ?? [])
+    .map((event) => normalizeEvent(event, league))
+    .filter((event): event is NormalizedEvent => Boolean(event));
+}
+
+async function fetchRoundEvents(
+  league: LeagueConfig,
+  season: string,
+  round: number
+) {
+  const res = await fetch(
+    `${BASE_URL}/eventsround.php?id=${league.id}&r=${round}&s=${encodeURIComponent(season)}`,
+    { next: { revalidate: 300 } }
+  );
+  if (!res.ok) {
+    throw new Error(`TheSportsDB error: ${res.status}`);
+  }
+  const data = (await res.json()) as SportsDbResponse;
+  return (data.events ?? [])
+    .map((event) => normalizeEvent(event, league))
+    .filter((event): event is NormalizedEvent => Boolean(event))
+    .sort(compareKickoff);
+}
+
+async function fetchStandings(
+  league: LeagueConfig,
+  season: string
+): Promise<LeagueStandings> {
+  const res = await fetch(
+    `${BASE_URL}/lookuptable.php?l=${league.id}&s=${encodeURIComponent(season)}`,
+    { next: { revalidate: 300 } }
+  );
+  if (!res.ok) {
+    throw new Error(`TheSportsDB error: ${res.status}`);
+  }
+  const data = (await res.json()) as { table: SportsDbTableRow[] | null };
+  const rows = (data.table ?? []).map((row) => ({
+    position: Number(row.intRank),
+    teamId: row.idTeam,
+    teamName: row.strTeam,
+    badge: row.strBadge ?? null,
+    played: Number(row.intPlayed),
+    won: Number(row.intWin),
+    drawn: Number(row.intDraw),
+    lost: Number(row.intLoss),
+    goalsFor: Number(row.intGoalsFor),
+    goalsAgainst: Number(row.intGoalsAgainst),
+    goalDifference: Number(row.intGoalDifference),
+    points: Number(row.intPoints),
+    // strForm lists the latest result first
+    form: row.strForm?.trim().split("").reverse().join("") || null,
+    description: row.strDescription?.trim() || null,
+  }));
+  return {
+    leagueId: league.id,
+    season,
+    rows: rows.sort((a, b) => a.position - b.position),
+  };
+}
+
+// The free tier has no head-to-head lookup; event names cover both orders
+async function fetchHeadToHead(
+  home: TeamRef,
+  away: TeamRef,
+  leagues: LeagueConfig[]
+) {
+  const [homeFirst, awayFirst] = await Promise.all([
+    searchEvents(`${home.name} vs ${away.name}`, leagues),
+    searchEvents(`${away.name} vs ${home.name}`, leagues),
+  ]);
+  const ids = [home.teamId, away.teamId];
+  const meetings = new Map<string, NormalizedEvent>();
+  for (const event of [...homeFirst, ...awayFirst]) {
+    // Name search also finds youth and women's sides with the same name
+    if (
+      event.homeTeamId &&
+      event.awayTeamId &&
+      !(ids.includes(event.homeTeamId) && ids.includes(event.awayTeamId))
+    ) {
+      continue;
+    }
+    meetings.set(event.eventId, event);
+  }
+  return Array.from(meetings.values());
+}
+
+export const sportsDbProvider: FixtureProvider = {
+  id: "sportsdb",
+  fetchLeagueEvents,
+  fetchTeamMatches,
+  fetchEventById,
+  fetchEventDetails,
+  fetchTeam,
+  searchTeams,
+  searchEvents,
+  fetchLeagueTeams,
+  fetchHeadToHead,
+  fetchStandings,
+  fetchSeasons,
+  fetchSeasonEvents,
+  fetchRoundEvents,
+};
@@ -0,0 +1,348 @@
+import { favoriteTeamsSql } from "@/lib/db";
+import { getPool } from "@/lib/pool";
+import { localDateSql } from "@/lib/timezone";
+
+export type StatsRange = {
+  // Inclusive YYYY-MM-DD bounds; null leaves that side open
+  from: string | null;
+  to: string | null;
+};
+
+export type TeamCount = { team: string; count: number };
+export type LeagueCount = { league: string; count: number };
+export type WeekdayCount = { weekday: string; count: number };
+
+export type TeamRecord = {
+  // Null for favourites the team directory doesn't know yet
+  teamId: string | null;
+  team: string;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+};
+
+export type WatchingStreak = {
+  days: number;
+  start: string;
+  end: string;
+};
+
+export type StatsReport = {
+  range: StatsRange;
+  matchCount: number;
+  goals: number;
+  goalsPerGame: number | null;
+  teams: TeamCount[];
+  leagues: LeagueCount[];
+  weekdays: WeekdayCount[];
+  longestStreak: WatchingStreak | null;
+  favoriteTeams: TeamRecord[];
+};
+
+const WEEKDAYS = [
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+  "Sunday",
+];
+
+const TOP_LIMIT = 10;
+
+// A row's calendar date in the user's timezone ($4)
+const localDate = (alias?: string) => localDateSql("$4", alias);
+
+// Rows of the viewing log inside the range; $1 user, $2 from, $3 to, $4 zone
+function logFilter(alias?: string) {
+  const c = alias ? `${alias}.` : "";
+  return `
+    ${c}user_id = $1
+    AND ${c}deleted_at IS NULL
+    AND ($2::date IS NULL OR ${localDate(alias)} >= $2::date)
+    AND ($3::date IS NULL OR ${localDate(alias)} <= $3::date)
+  `;
+}
+
+// Everything is aggregated in SQL so the client never needs the full log.
+// `favoriteTeams` are team ids, reported in the same order. Days and
+// weekdays follow `timeZone`.
+export async function getStatsReport(
+  userId: string,
+  range: StatsRange,
+  favoriteTeams: string[],
+  timeZone: string
+): Promise<StatsReport> {
+  const pool = getPool();
+  const params = [userId, range.from, range.to, timeZone];
+
+  const [summary, teams, leagues, weekdays, streak, records] =
+    await Promise.all([
+      pool.query(
+        `
+          SELECT
+            COUNT(*)::int as "matchCount",
+            COUNT(*) FILTER (
+              WHERE home_score IS NOT NULL AND away_score IS NOT NULL
+            )::int as "scoredCount",
+            COALESCE(SUM(home_score + away_score), 0)::int as goals
+          FROM watched_events
+          WHERE ${logFilter()}
+        `,
+        params
+      ),
+      pool.query(
+        `
+          SELECT team, COUNT(*)::int as count
+          FROM (
+            SELECT home_team as team FROM watched_events WHERE ${logFilter()}
+            UNION ALL
+            SELECT away_team as team FROM watched_events WHERE ${logFilter()}
+          ) sides
+          GROUP BY team
+          ORDER BY count DESC, team ASC
+          LIMIT $5
+        `,
+        [...params, TOP_LIMIT]
+      ),
+      pool.query(
+        `
+          SELECT league_name as league, COUNT(*)::int as count
+          FROM watched_events
+          WHERE ${logFilter()}
+          GROUP BY league_name
+          ORDER BY count DESC, league_name ASC
+          LIMIT $5
+        `,
+        [...params, TOP_LIMIT]
+      ),
+      pool.query(
+        `
+          SELECT EXTRACT(ISODOW FROM ${localDate()})::int as day, COUNT(*)::int as count
+          FROM watched_events
+          WHERE ${logFilter()}
+          GROUP BY day
+        `,
+        params
+      ),
+      // Consecutive days share the same (date - row number), so each group
+      // is one unbroken run of watching days
+      pool.query(
+        `
+          WITH days AS (
+            SELECT DISTINCT ${localDate()} as date
+            FROM watched_events
+            WHERE ${logFilter()}
+          ),
+          runs AS (
+            SELECT date, date - (ROW_NUMBER() OVER (ORDER BY date))::int as run
+            FROM days
+          )
+          SELECT
+            COUNT(*)::int as days,
+            to_char(MIN(date), 'YYYY-MM-DD') as start,
+            to_char(MAX(date), 'YYYY-MM-DD') as "end"
+          FROM runs
+          GROUP BY run
+          ORDER BY days DESC, MAX(date) DESC
+          LIMIT 1
+        `,
+        params
+      ),
+      pool.query(
+        `
+          SELECT
+            fav.team_id as "teamId",
+            fav.team,
+            COUNT(w.id)::int as played,
+            COUNT(w.id) FILTER (
+              WHERE (w.home_team = ANY(fav.names) AND w.home_score > w.away_score)
+                 OR (w.away_team = ANY(fav.names) AND w.away_score > w.home_score)
+            )::int as won,
+            COUNT(w.id) FILTER (WHERE w.home_score = w.away_score)::int as drawn,
+            COUNT(w.id) FILTER (
+              WHERE (w.home_team = ANY(fav.names) AND w.home_score < w.away_score)
+                 OR (w.away_team = ANY(fav.names) AND w.away_score < w.home_score)
+            )::int as lost
+          FROM (${favoriteTeamsSql("$5")}) fav
+          LEFT JOIN watched_events w
+            ON ${logFilter("w")}
+            AND (w.home_team = ANY(fav.names) OR w.away_team = ANY(fav.names))
+            AND w.home_score IS NOT NULL
+            AND w.away_score IS NOT NULL
+          GROUP BY fav.team_id, fav.team, fav.position
+          ORDER BY fav.position
+        `,
+        [...params, favoriteTeams]
+      ),
+    ]);
+
+  const totals = summary.rows[0] as {
+    matchCount: number;
+    scoredCount: number;
+    goals: number;
+  };
+  const dayCounts = new Map<number, number>(
+    weekdays.rows.map((row: { day: number; count: number }) => [
+      row.day,
+      row.count,
+    ])
+  );
+
+  return {
+    range,
+    matchCount: totals.matchCount,
+    goals: totals.goals,
+    goalsPerGame:
+      totals.scoredCount > 0
+        ? Math.round((totals.goals / totals.scoredCount) * 100) / 100
+        : null,
+    teams: teams.rows as TeamCount[],
+    leagues: leagues.rows as LeagueCount[],
+    weekdays: WEEKDAYS.map((weekday, index) => ({
+      weekday,
+      count: dayCounts.get(index + 1) ?? 0,
+    })).sort((a, b) => b.count - a.count),
+    longestStreak: (streak.rows[0] as WatchingStreak) ?? null,
+    favoriteTeams: records.rows as TeamRecord[],
+  };
+}
+
+export type RecapMatch = {
+  date: string;
+  homeTeam: string;
+  awayTeam: string;
+  homeScore: number | null;
+  awayScore: number | null;
+  league: string;
+};
+
+export type YearInReview = {
+  year: number;
+  matchCount: number;
+  minutesWatched: number;
+  topTeam: TeamCount | null;
+  topLeague: LeagueCount | null;
+  biggestScoreline: RecapMatch | null;
+  highestScoring: RecapMatch | null;
+  firstMatch: RecapMatch | null;
+  lastMatch: RecapMatch | null;
+  // Twelve entries, January first
+  months: number[];
+};
+
+// Regulation time; the log doesn't record extra time
+const MINUTES_PER_MATCH = 90;
+
+const RECAP_COLUMNS = `
+  to_char(${localDate()}, 'YYYY-MM-DD') as date,
+  home_team as "homeTeam",
+  away_team as "awayTeam",
+  home_score as "homeScore",
+  away_score as "awayScore",
+  league_name as league
+`;
+
+// Year from a query string or body, defaulting to the current one; null when
+// it isn't a plausible calendar year
+export function parseRecapYear(value: unknown) {
+  const year =
+    value === null || value === undefined || value === ""
+      ? new Date().getUTCFullYear()
+      : Number(value);
+  return Number.isInteger(year) && year >= 1900 && year <= 2100 ? year : null;
+}
+
+// "Wrapped"-style recap of one calendar year of the viewing log
+export async function getYearInReview(
+  userId: string,
+  year: number,
+  timeZone: string
+): Promise<YearInReview> {
+  const pool = getPool();
+  const range: StatsRange = { from: `${year}-01-01`, to: `${year}-12-31` };
+  const params = [userId, range.from, range.to, timeZone];
+  const scored = "home_score IS NOT NULL AND away_score IS NOT NULL";
+
+  const [report, played, biggest, highest, first, last, months] =
+    await Promise.all([
+      getStatsReport(userId, range, [], timeZone),
+      pool.query(
+        `
+          SELECT COUNT(*)::int as count
+          FROM watched_events
+          WHERE ${logFilter()} AND status IS DISTINCT FROM 'postponed'
+        `,
+        params
+      ),
+      pool.query(
+        `
+          SELECT ${RECAP_COLUMNS}
+          FROM watched_events
+          WHERE ${logFilter()} AND ${scored}
+          ORDER BY abs(home_score - away_score) DESC, home_score + away_score DESC, ${localDate()} ASC
+          LIMIT 1
+        `,
+        params
+      ),
+      pool.query(
+        `
+          SELECT ${RECAP_COLUMNS}
+          FROM watched_events
+          WHERE ${logFilter()} AND ${scored}
+          ORDER BY home_score + away_score DESC, ${localDate()} ASC
+          LIMIT 1
+        `,
+        params
+      ),
+      pool.query(
+        `
+          SELECT ${RECAP_COLUMNS}
+          FROM watched_events
+          WHERE ${logFilter()}
+          ORDER BY ${localDate()} ASC, kickoff_at ASC NULLS LAST, id ASC
+          LIMIT 1
+        `,
+        params
+      ),
+      pool.query(
+        `
+          SELECT ${RECAP_COLUMNS}
+          FROM watched_events
+          WHERE ${logFilter()}
+          ORDER BY ${localDate()} DESC, kickoff_at DESC NULLS LAST, id DESC
+          LIMIT 1
+        `,
+        params
+      ),
+      pool.query(
+        `
+          SELECT EXTRACT(MONTH FROM ${localDate()})::int as month, COUNT(*)::int as count
+          FROM watched_events
+          WHERE ${logFilter()}
+          GROUP BY month
+        `,
+        params
+      ),
+    ]);
+
+  const histogram = Array.from({ length: 12 }, () => 0);
+  months.rows.forEach((row: { month: number; count: number }) => {
+    histogram[row.month - 1] = row.count;
+  });
+
+  return {
+    year,
+    matchCount: report.matchCount,
+    minutesWatched: Number(played.rows[0]?.count ?? 0) * MINUTES_PER_MATCH,
+    topTeam: report.teams[0] ?? null,
+    topLeague: report.leagues[0] ?? null,
+    biggestScoreline: (biggest.rows[0] as RecapMatch) ?? null,
+    highestScoring: (highest.rows[0] as RecapMatch) ?? null,
+    firstMatch: (first.rows[0] as RecapMatch) ?? null,
+    lastMatch: (last.rows[0] as RecapMatch) ?? null,
+    months: histogram,
+  };
+}
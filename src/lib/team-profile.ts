@@ -0,0 +1,202 @@
+import { getTeam, listUpcomingNotifiedEvents, type NotifiedEvent } from "@/lib/db";
+import {
+  fetchTeam,
+  fetchTeamMatches,
+  type NormalizedEvent,
+  type TeamDetails,
+} from "@/lib/fixtures";
+import { getPool } from "@/lib/pool";
+import type { HistoryMatch } from "@/lib/search";
+import { compareKickoff, localDateSql } from "@/lib/timezone";
+
+const FORM_LENGTH = 5;
+
+export type FormResult = "W" | "D" | "L";
+
+export type FormMatch = {
+  result: FormResult;
+  event: NormalizedEvent;
+};
+
+// The user's own log for games the team played in
+export type TeamWatchHistory = {
+  played: number;
+  // Only games with a recorded score count towards W/D/L and goals
+  won: number;
+  drawn: number;
+  lost: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalsSeen: number;
+  lastWatched: HistoryMatch | null;
+};
+
+export type TeamProfile = {
+  // Directory entry merged with what the provider knows; provider-only
+  // fields are null when it couldn't be reached
+  team: Omit<TeamDetails, "teamId" | "leagueId" | "leagueName"> & {
+    id: string;
+  };
+  recentForm: FormMatch[];
+  history: TeamWatchHistory;
+  notifiedFixtures: NotifiedEvent[];
+  // Why recentForm or the provider fields are missing, if they are
+  providerError: string | null;
+};
+
+function errorMessage(reason: unknown) {
+  return reason instanceof Error ? reason.message : String(reason);
+}
+
+// Result of the latest finished games, newest first, from the team's side
+function recentForm(teamId: string, teamNames: string[], past: NormalizedEvent[]) {
+  return past
+    .filter(
+      (event) =>
+        event.status === "finished" &&
+        event.homeScore !== null &&
+        event.awayScore !== null
+    )
+    .sort((a, b) => compareKickoff(b, a))
+    .slice(0, FORM_LENGTH)
+    .map((event): FormMatch => {
+      const isHome = event.homeTeamId
+        ? event.homeTeamId === teamId
+        : teamNames.includes(event.homeTeam);
+      const diff =
+        ((event.homeScore as number) - (event.awayScore as number)) *
+        (isHome ? 1 : -1);
+      return { result: diff > 0 ? "W" : diff < 0 ? "L" : "D", event };
+    });
+}
+
+// The viewing log stores team names as typed, so games are matched on every
+// name the team is known by, ignoring case; $1 user, $2 names, $3 zone
+async function getWatchHistory(
+  userId: string,
+  teamNames: string[],
+  timeZone: string
+): Promise<TeamWatchHistory> {
+  const pool = getPool();
+  const names = "ARRAY(SELECT lower(n) FROM unnest($2::text[]) n)";
+  const isHome = `lower(home_team) = ANY(${names})`;
+  const involves = `(${isHome} OR lower(away_team) = ANY(${names}))`;
+  const scored = "home_score IS NOT NULL AND away_score IS NOT NULL";
+  const teamGoals = `CASE WHEN ${isHome} THEN home_score ELSE away_score END`;
+  const opponentGoals = `CASE WHEN ${isHome} THEN away_score ELSE home_score END`;
+
+  const [totals, last] = await Promise.all([
+    pool.query(
+      `
+        SELECT
+          COUNT(*)::int as played,
+          COUNT(*) FILTER (WHERE ${scored} AND ${teamGoals} > ${opponentGoals})::int as won,
+          COUNT(*) FILTER (WHERE ${scored} AND home_score = away_score)::int as drawn,
+          COUNT(*) FILTER (WHERE ${scored} AND ${teamGoals} < ${opponentGoals})::int as lost,
+          COALESCE(SUM(${teamGoals}) FILTER (WHERE ${scored}), 0)::int as "goalsFor",
+          COALESCE(SUM(${opponentGoals}) FILTER (WHERE ${scored}), 0)::int as "goalsAgainst",
+          COALESCE(SUM(home_score + away_score), 0)::int as "goalsSeen"
+        FROM watched_events
+        WHERE user_id = $1 AND deleted_at IS NULL AND ${involves}
+      `,
+      [userId, teamNames]
+    ),
+    pool.query(
+      `
+        SELECT
+          id,
+          event_id as "eventId",
+          source,
+          to_char(${localDateSql("$3")}, 'YYYY-MM-DD') as date,
+          kickoff_at as "kickoffAt",
+          league_name as league,
+          home_team as "homeTeam",
+          away_team as "awayTeam",
+          home_score as "homeScore",
+          away_score as "awayScore"
+        FROM watched_events
+        WHERE user_id = $1 AND deleted_at IS NULL AND ${involves}
+        ORDER BY COALESCE(kickoff_at, date::timestamp AT TIME ZONE 'UTC') DESC, id DESC
+        LIMIT 1
+      `,
+      [userId, teamNames, timeZone]
+    ),
+  ]);
+
+  return {
+    ...(totals.rows[0] as Omit<TeamWatchHistory, "lastWatched">),
+    lastWatched: (last.rows[0] as HistoryMatch) ?? null,
+  };
+}
+
+// Null when neither the team directory nor the provider knows the team.
+// Throws only when the directory doesn't have it and the provider failed.
+export async function getTeamProfile(
+  userId: string,
+  teamId: string,
+  timeZone: string
+): Promise<TeamProfile | null> {
+  const [stored, details, matches] = await Promise.all([
+    getTeam(teamId),
+    fetchTeam(teamId).then(
+      (team) => ({ team, error: null }),
+      (error: unknown) => ({ team: null, error })
+    ),
+    fetchTeamMatches(teamId).then(
+      (result) => ({ result, error: null }),
+      (error: unknown) => ({ result: null, error })
+    ),
+  ]);
+
+  if (!stored && details.error) {
+    throw details.error;
+  }
+  const provider = details.team;
+  if (!stored && !provider) {
+    return null;
+  }
+
+  const team = {
+    id: teamId,
+    name: stored?.name ?? provider?.name ?? "",
+    shortName: stored?.shortName ?? provider?.shortName ?? null,
+    badge: stored?.badge ?? provider?.badge ?? null,
+    country: stored?.country ?? provider?.country ?? null,
+    aliases: stored?.aliases ?? provider?.aliases ?? [],
+    stadium: provider?.stadium ?? null,
+    stadiumCapacity: provider?.stadiumCapacity ?? null,
+    founded: provider?.founded ?? null,
+  };
+  const teamNames = Array.from(
+    new Set(
+      [team.name, team.shortName, ...team.aliases].filter(
+        (name): name is string => Boolean(name)
+      )
+    )
+  );
+  const upcomingIds = (matches.result?.upcomingMatches ?? []).map(
+    (event) => event.eventId
+  );
+
+  const [history, notifiedFixtures] = await Promise.all([
+    getWatchHistory(userId, teamNames, timeZone),
+    listUpcomingNotifiedEvents(userId, upcomingIds, teamNames),
+  ]);
+
+  const failure = details.error ?? matches.error;
+  if (failure) {
+    console.error(`Team profile provider error for ${teamId}:`, failure);
+  }
+
+  return {
+    team,
+    recentForm: recentForm(
+      teamId,
+      teamNames,
+      matches.result?.pastMatches ?? []
+    ),
+    history,
+    notifiedFixtures,
+    providerError: failure ? errorMessage(failure) : null,
+  };
+}
@@ -0,0 +1,45 @@
+import {
+  convertFavoriteTeamNames,
+  listLeagues,
+  replaceLeagueTeams,
+} from "@/lib/db";
+import { fetchLeagueTeams } from "@/lib/fixtures";
+
+export type TeamSyncResult = {
+  leagues: number;
+  teams: number;
+  failed: number;
+  convertedUsers: number;
+};
+
+// Refreshes the team directory from the provider, one enabled league at a
+// time, then converts favourite team names to ids where it now can.
+export async function syncTeams(): Promise<TeamSyncResult> {
+  const leagues = await listLeagues();
+  const result: TeamSyncResult = {
+    leagues: leagues.length,
+    teams: 0,
+    failed: 0,
+    convertedUsers: 0,
+  };
+
+  // Sequential on purpose: the upstream rate-limits bursts
+  for (const league of leagues) {
+    try {
+      const teams = await fetchLeagueTeams(league);
+      // An empty answer is more likely an upstream hiccup than a league
+      // without teams; keep the current membership
+      if (teams.length === 0) {
+        throw new Error("Provider returned no teams.");
+      }
+      await replaceLeagueTeams(league.id, teams);
+      result.teams += teams.length;
+    } catch (error) {
+      console.error(`Team sync failed for league ${league.id}:`, error);
+      result.failed += 1;
+    }
+  }
+
+  result.convertedUsers = await convertFavoriteTeamNames();
+  return result;
+}
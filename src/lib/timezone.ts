@@ -0,0 +1,163 @@
+// Provider fixtures are in UTC; users see dates and times in their own zone
+// (the `timezone` preference, an IANA name such as "Europe/Istanbul").
+export const DEFAULT_TIME_ZONE = "UTC";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d/;
+
+export function isValidTimeZone(value: unknown): value is string {
+  if (typeof value !== "string" || !value) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function resolveTimeZone(value: unknown) {
+  return isValidTimeZone(value) ? value : DEFAULT_TIME_ZONE;
+}
+
+function zonedParts(instant: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+// YYYY-MM-DD of an instant as seen in the zone
+export function localDateOf(instant: Date | string, timeZone: string) {
+  const { year, month, day } = zonedParts(new Date(instant), timeZone);
+  return `${year}-${`${month}`.padStart(2, "0")}-${`${day}`.padStart(2, "0")}`;
+}
+
+export function todayInZone(timeZone: string) {
+  return localDateOf(new Date(), timeZone);
+}
+
+// Milliseconds the zone is ahead of UTC at that instant
+function zoneOffsetMs(instant: Date, timeZone: string) {
+  const p = zonedParts(instant, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// Wall-clock date and time in the zone to an ISO instant; null when either
+// part is missing or malformed
+export function zonedTimeToUtc(
+  date: string,
+  time: string | null | undefined,
+  timeZone: string
+) {
+  if (!DATE_PATTERN.test(date) || !time || !TIME_PATTERN.test(time)) {
+    return null;
+  }
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.slice(0, 5).split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  // Two passes settle the offset on either side of a DST change
+  let instant = wallClock - zoneOffsetMs(new Date(wallClock), timeZone);
+  instant = wallClock - zoneOffsetMs(new Date(instant), timeZone);
+  return new Date(instant).toISOString();
+}
+
+// Provider date and time (UTC) to an ISO instant
+export function toKickoffAt(date: string, time: string | null | undefined) {
+  return zonedTimeToUtc(date, time, "UTC");
+}
+
+type Kickoff = { date: string; time: string };
+
+// Earliest provider kickoff first; swap the arguments for newest first
+export function compareKickoff(a: Kickoff, b: Kickoff) {
+  return `${a.date}T${a.time}`.localeCompare(`${b.date}T${b.time}`);
+}
+
+function shiftDate(date: string, days: number) {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+// Epoch milliseconds of a YYYY-MM-DD that names a real day, else null
+// (2024-13-01 and 2023-02-29 don't)
+function calendarDateMs(value: string) {
+  if (!DATE_PATTERN.test(value)) return null;
+  const [year, month, day] = value.split("-").map(Number);
+  const ms = Date.UTC(year, month - 1, day);
+  const date = new Date(ms);
+  return date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+    ? ms
+    : null;
+}
+
+export function isCalendarDate(value: string) {
+  return calendarDateMs(value) !== null;
+}
+
+// Days from `from` to `to`, inclusive; 0 or less when `to` is earlier.
+// Both must be calendar dates.
+export function countDays(from: string, to: string) {
+  const start = calendarDateMs(from) ?? 0;
+  const end = calendarDateMs(to) ?? 0;
+  return Math.round((end - start) / 86_400_000) + 1;
+}
+
+// Callers check the span first; the cap only guards against ranges that
+// slipped past that
+const MAX_DATES = 400;
+
+// Every YYYY-MM-DD from `from` to `to`, inclusive
+export function datesBetween(from: string, to: string) {
+  const dates: string[] = [];
+  for (
+    let date = from;
+    DATE_PATTERN.test(date) && date <= to && dates.length < MAX_DATES;
+    date = shiftDate(date, 1)
+  ) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+// The UTC calendar days that overlap a range of calendar days in the zone:
+// the same days for UTC itself, otherwise one more at either end
+export function utcDatesForLocalRange(
+  from: string,
+  to: string,
+  timeZone: string
+) {
+  return datesBetween(shiftDate(from, -1), shiftDate(to, 1)).filter(
+    (utcDate) => {
+      const first = localDateOf(`${utcDate}T00:00:00Z`, timeZone);
+      const last = localDateOf(`${utcDate}T23:59:59Z`, timeZone);
+      return first <= to && from <= last;
+    }
+  );
+}
+
+// SQL for a row's calendar date in the zone held by `zoneParam`, falling back
+// to the stored (UTC) date when the kickoff time is unknown
+export function localDateSql(zoneParam: string, alias?: string) {
+  const c = alias ? `${alias}.` : "";
+  return `COALESCE((${c}kickoff_at AT TIME ZONE ${zoneParam})::date, ${c}date)`;
+}